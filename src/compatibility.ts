@@ -0,0 +1,302 @@
+import { z } from "zod";
+import {
+  ROOT_KEY,
+  structuredOutputsProfile,
+  type ProviderProfile,
+} from "./profiles.js";
+import { children, formatPath, lazySource, stringFormat } from "./utils.js";
+
+export type CompatibilityIssueCode =
+  | "unsupported_type"
+  | "transform"
+  | "refinement"
+  | "recursion"
+  | "unsupported_format"
+  | "additional_properties"
+  | "max_depth"
+  | "max_properties"
+  | "max_enum_values";
+
+export interface CompatibilityIssue {
+  readonly code: CompatibilityIssueCode;
+  /** Path of the offending type, see `FilterContext` */
+  readonly path: string[];
+  readonly message: string;
+}
+
+export interface CompatibilityReport {
+  /**
+   * The type (value of the literal) of the checked schema, `null` if the
+   * report covers all schemas of a repo (see `checkBudget`)
+   */
+  readonly typeName: string | null;
+  readonly profile: string;
+  readonly compatible: boolean;
+  readonly issues: CompatibilityIssue[];
+}
+
+/**
+ * What to do when a schema registered for the llm repo is not compatible
+ * with the provider profile: throw an `IncompatibleSchemaError`, log a
+ * warning or drop the offending fields from the llm schema.
+ */
+export type IncompatibleSchemaAction = "throw" | "warn" | "drop";
+
+export class IncompatibleSchemaError extends Error {
+  constructor(public readonly report: CompatibilityReport) {
+    const subject =
+      report.typeName === null
+        ? "Schemas are"
+        : `Schema '${report.typeName}' is`;
+    super(
+      `${subject} not compatible with '${report.profile}':\n` +
+        formatReport(report),
+    );
+    this.name = "IncompatibleSchemaError";
+  }
+}
+
+/**
+ * Refinements which only enforce limits already described to the model in
+ * the schema, e.g. the limits by type of a list. They are not reported.
+ */
+const describedRefinements = new WeakSet<z.ZodTypeAny>();
+
+/**
+ * Marks the refinement as enforcing limits described in the schema.
+ */
+export function describedRefinement<T extends z.ZodEffects<z.ZodTypeAny>>(
+  refinement: T,
+): T {
+  describedRefinements.add(refinement);
+  return refinement;
+}
+
+/**
+ * Check a schema against the constructs and limits of the provider profile.
+ * The `discriminator` is only used to name the schema in the report.
+ */
+export function checkCompatibility(
+  schema: z.AnyZodObject,
+  profile: ProviderProfile = structuredOutputsProfile,
+  discriminator = "type",
+): CompatibilityReport {
+  const state: VisitState = {
+    profile,
+    issues: [],
+    counts: { properties: 0, enumValues: 0 },
+  };
+  visit(schema, [], [], 0, state);
+  checkLimits(state);
+
+  return {
+    typeName: String(schema.shape[discriminator]?._def.value),
+    profile: profile.name,
+    compatible: state.issues.length === 0,
+    issues: state.issues,
+  };
+}
+
+/**
+ * Check the limits of the provider profile which apply to all schemas sent
+ * at once (e.g. as union): the total number of properties and enum values,
+ * and the depth of the schemas once the union is wrapped in the root object
+ * the profile requires.
+ */
+export function checkBudget(
+  schemas: z.AnyZodObject[],
+  profile: ProviderProfile = structuredOutputsProfile,
+): CompatibilityReport {
+  const state: VisitState = {
+    profile,
+    issues: [],
+    counts: { properties: 0, enumValues: 0 },
+  };
+  const wrapped = profile.rootMustBeObject === true && schemas.length > 1;
+  if (wrapped) {
+    state.counts.properties += 1;
+  }
+  for (const schema of schemas) {
+    // only count, the schemas are checked one by one by checkCompatibility
+    const issues: CompatibilityIssue[] = [];
+    visit(schema, [], [], 0, { ...state, issues });
+    if (wrapped && !issues.some(({ code }) => code === "max_depth")) {
+      visit(schema, [ROOT_KEY], [], 1, {
+        ...state,
+        issues,
+        counts: { properties: 0, enumValues: 0 },
+      });
+      state.issues.push(
+        ...issues
+          .filter(({ code }) => code === "max_depth")
+          .map((issue) => ({
+            ...issue,
+            message: `${issue.message} once wrapped in the root object`,
+          })),
+      );
+    }
+  }
+  checkLimits(state);
+
+  return {
+    typeName: null,
+    profile: profile.name,
+    compatible: state.issues.length === 0,
+    issues: state.issues,
+  };
+}
+
+/**
+ * Render the issues of a report, one line per issue.
+ */
+export function formatReport(report: CompatibilityReport): string {
+  return report.issues
+    .map((issue) => `  ${formatPath(issue.path) || "<root>"}: ${issue.message}`)
+    .join("\n");
+}
+
+interface VisitState {
+  readonly profile: ProviderProfile;
+  readonly issues: CompatibilityIssue[];
+  readonly counts: { properties: number; enumValues: number };
+}
+
+function checkLimits({ profile, issues, counts }: VisitState): void {
+  if (
+    profile.maxProperties !== undefined &&
+    counts.properties > profile.maxProperties
+  ) {
+    issues.push({
+      code: "max_properties",
+      path: [],
+      message: `${counts.properties} properties exceed the limit of ${profile.maxProperties}`,
+    });
+  }
+  if (
+    profile.maxEnumValues !== undefined &&
+    counts.enumValues > profile.maxEnumValues
+  ) {
+    issues.push({
+      code: "max_enum_values",
+      path: [],
+      message: `${counts.enumValues} enum values exceed the limit of ${profile.maxEnumValues}`,
+    });
+  }
+}
+
+function visit(
+  zodType: z.ZodTypeAny,
+  path: string[],
+  ancestors: z.ZodTypeAny[],
+  depth: number,
+  state: VisitState,
+): void {
+  const { profile, issues, counts } = state;
+  const typeName = zodType._def.typeName as z.ZodFirstPartyTypeKind;
+
+  if (ancestors.includes(lazySource(zodType))) {
+    if (!profile.allowRecursion) {
+      issues.push({
+        code: "recursion",
+        path,
+        message: "recursive schemas are not supported",
+      });
+    }
+    return;
+  }
+
+  if (profile.unsupportedTypes.includes(typeName)) {
+    issues.push({
+      code: "unsupported_type",
+      path,
+      message: `${typeName} is not supported`,
+    });
+    return;
+  }
+
+  if (zodType instanceof z.ZodEffects && !describedRefinements.has(zodType)) {
+    const isRefinement = zodType._def.effect.type === "refinement";
+    if (isRefinement ? !profile.allowRefinements : !profile.allowTransforms) {
+      issues.push({
+        code: isRefinement ? "refinement" : "transform",
+        path,
+        message: isRefinement
+          ? "refinements can not be enforced by the provider"
+          : zodType._def.effect.type === "preprocess"
+            ? "preprocessors are not supported"
+            : "transforms are not supported",
+      });
+    }
+  }
+
+  if (zodType instanceof z.ZodPipeline && !profile.allowTransforms) {
+    issues.push({
+      code: "transform",
+      path,
+      message: "pipelines are not supported",
+    });
+  }
+
+  if (zodType instanceof z.ZodObject) {
+    depth += 1;
+    counts.properties += Object.keys(zodType.shape).length;
+
+    if (profile.maxDepth !== undefined && depth === profile.maxDepth + 1) {
+      issues.push({
+        code: "max_depth",
+        path,
+        message: `objects are nested deeper than ${profile.maxDepth} levels`,
+      });
+    }
+
+    const allowsAdditional =
+      zodType._def.unknownKeys === "passthrough" ||
+      !(zodType._def.catchall instanceof z.ZodNever);
+    if (profile.noAdditionalProperties && allowsAdditional) {
+      issues.push({
+        code: "additional_properties",
+        path,
+        message: "objects must not allow additional properties",
+      });
+    }
+  }
+
+  if (zodType instanceof z.ZodRecord && profile.noAdditionalProperties) {
+    issues.push({
+      code: "additional_properties",
+      path,
+      message: "records are not supported, use an object with fixed keys",
+    });
+  }
+
+  if (zodType instanceof z.ZodEnum) {
+    counts.enumValues += zodType.options.length;
+  }
+
+  if (zodType instanceof z.ZodNativeEnum) {
+    counts.enumValues += Object.keys(zodType.enum).length;
+  }
+
+  if (zodType instanceof z.ZodString && profile.stringFormats) {
+    for (const check of zodType._def.checks) {
+      const format = stringFormat(check);
+      if (format !== undefined && !profile.stringFormats.includes(format)) {
+        issues.push({
+          code: "unsupported_format",
+          path,
+          message: `the string format '${format}' is not supported`,
+        });
+      }
+    }
+  }
+
+  for (const [child, segment] of children(zodType)) {
+    visit(
+      child,
+      segment === undefined ? path : [...path, segment],
+      [...ancestors, lazySource(zodType)],
+      depth,
+      state,
+    );
+  }
+}
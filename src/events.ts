@@ -0,0 +1,98 @@
+import type { z } from "zod";
+
+/**
+ * A change of a type in the registry. The schemas are the current versions
+ * before and after the change, `null` if there was or is none.
+ */
+export interface RegistryEvent {
+  /** The type (value of the literal) that changed */
+  readonly name: string;
+  readonly original: z.AnyZodObject | null;
+  readonly llm: z.AnyZodObject | null;
+  readonly previousOriginal: z.AnyZodObject | null;
+  readonly previousLLM: z.AnyZodObject | null;
+}
+
+/**
+ * Events of the registry: a new type was registered, a registered type was
+ * registered again (replaced or versioned) or a type was unregistered.
+ */
+export interface RegistryEvents {
+  register: RegistryEvent;
+  replace: RegistryEvent;
+  unregister: RegistryEvent;
+}
+
+export type RegistryListener<E extends keyof RegistryEvents> = (
+  event: RegistryEvents[E],
+) => void;
+
+/**
+ * Delivers events synchronously in the order they were emitted. Events
+ * emitted by a listener are queued until the current event was delivered to
+ * every listener. Errors of listeners do not stop the delivery, the first
+ * one is rethrown afterwards.
+ */
+export class Emitter<Events extends object> {
+  #listeners = new Map<keyof Events, ((event: any) => void)[]>();
+  #queue: [keyof Events, unknown][] = [];
+  #delivering = false;
+
+  /**
+   * Adds a listener, returns a function removing it again.
+   */
+  on<E extends keyof Events>(
+    event: E,
+    listener: (event: Events[E]) => void,
+  ): () => void {
+    this.#listeners.set(event, [
+      ...(this.#listeners.get(event) ?? []),
+      listener,
+    ]);
+    return () => {
+      this.#listeners.set(
+        event,
+        (this.#listeners.get(event) ?? []).filter((l) => l !== listener),
+      );
+    };
+  }
+
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    this.emitAll([[event, payload]]);
+  }
+
+  /**
+   * Emits the events in one delivery, so an error of a listener does not
+   * keep the later events from being delivered.
+   */
+  emitAll(
+    events: { [E in keyof Events]: [E, Events[E]] }[keyof Events][],
+  ): void {
+    this.#queue.push(...events);
+    if (this.#delivering) {
+      return;
+    }
+
+    this.#delivering = true;
+    const errors: unknown[] = [];
+    try {
+      let next: [keyof Events, unknown] | undefined;
+      while ((next = this.#queue.shift())) {
+        const [name, value] = next;
+        for (const listener of this.#listeners.get(name) ?? []) {
+          try {
+            listener(value);
+          } catch (error) {
+            errors.push(error);
+          }
+        }
+      }
+    } finally {
+      this.#delivering = false;
+    }
+
+    if (errors.length) {
+      throw errors[0];
+    }
+  }
+}
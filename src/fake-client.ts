@@ -0,0 +1,42 @@
+import type { ModelClient, ModelRequest } from "./generate.js";
+
+/**
+ * An answer of the fake client: a text, an error to throw or a function
+ * computing the answer from the request.
+ */
+export type FakeResponse =
+  | string
+  | Error
+  | ((request: ModelRequest) => string | Promise<string>);
+
+/**
+ * In-memory model client answering with the given responses in order, for
+ * tests and offline development. Records every request it receives.
+ */
+export class FakeModelClient implements ModelClient {
+  #responses: FakeResponse[];
+  #requests: ModelRequest[] = [];
+
+  constructor(responses: FakeResponse[]) {
+    this.#responses = [...responses];
+  }
+
+  /** The requests received so far */
+  public get requests(): readonly ModelRequest[] {
+    return this.#requests;
+  }
+
+  public async complete(request: ModelRequest): Promise<string> {
+    this.#requests.push(request);
+    const response = this.#responses.shift();
+    if (response === undefined) {
+      throw new Error(
+        `No response left for request ${this.#requests.length} of the fake client`,
+      );
+    }
+    if (response instanceof Error) {
+      throw response;
+    }
+    return typeof response === "function" ? response(request) : response;
+  }
+}
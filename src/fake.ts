@@ -0,0 +1,485 @@
+import { z } from "zod";
+import type { Repo } from "./internals.js";
+import { formatPath, isRecord } from "./utils.js";
+
+export interface FakeOptions {
+  /** Seed of the random numbers, the same seed produces the same data */
+  readonly seed?: number;
+  /** Probability to leave out optionals and to use `null` for nullables */
+  readonly emptyRate?: number;
+  /** Maximum length of arrays, sets, records and maps without a limit */
+  readonly maxItems?: number;
+  /** Depth of recursive (`z.lazy`) schemas after which they are ended */
+  readonly maxDepth?: number;
+}
+
+/**
+ * Generate a value accepted by the schema: formats, limits and enums of
+ * strings, numbers, dates and arrays are respected. Refinements are retried
+ * a few times, patterns (`regex`) and functions can not be generated.
+ */
+export function fake<T extends z.ZodTypeAny>(
+  schema: T,
+  options: FakeOptions = {},
+): z.input<T> {
+  return new Faker(options).value(schema, [], 0) as z.input<T>;
+}
+
+export interface FakeOutputOptions extends FakeOptions {
+  /** The type to generate, chosen by the seed by default */
+  readonly type?: string;
+}
+
+/**
+ * Generate an instance of one of the schemas of the repo.
+ */
+export function fakeOutput(
+  repo: Repo,
+  options: FakeOutputOptions = {},
+): Record<string, unknown> {
+  const faker = new Faker(options);
+  const schema =
+    options.type === undefined
+      ? faker.pick(repo.schemas)
+      : repo.factory(options.type);
+  if (!schema) {
+    throw new Error(
+      options.type === undefined
+        ? "No schema registered"
+        : `No schema registered for type '${options.type}'`,
+    );
+  }
+  return faker.value(schema, [], 0) as Record<string, unknown>;
+}
+
+const WORDS = [
+  "lorem",
+  "ipsum",
+  "dolor",
+  "sit",
+  "amet",
+  "consectetur",
+  "adipiscing",
+  "elit",
+  "sed",
+  "do",
+  "eiusmod",
+  "tempor",
+  "incididunt",
+  "labore",
+  "magna",
+  "aliqua",
+];
+
+const ALPHANUMERIC = "abcdefghijklmnopqrstuvwxyz0123456789";
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const HEX = "0123456789abcdef";
+
+/** Span of numbers generated without a bound on one or both sides */
+const NUMBER_SPAN = 1000;
+
+/** Dates are generated between 2000 and 2030 unless bounded otherwise */
+const DATE_START = Date.UTC(2000, 0, 1);
+const DATE_SPAN = Date.UTC(2030, 0, 1) - DATE_START;
+
+/** Attempts to generate a value passing the refinements of a schema */
+const REFINEMENT_ATTEMPTS = 20;
+
+class Faker {
+  #random: () => number;
+  #emptyRate: number;
+  #maxItems: number;
+  #maxDepth: number;
+
+  constructor({
+    seed = 0,
+    emptyRate = 0.25,
+    maxItems = 3,
+    maxDepth = 3,
+  }: FakeOptions) {
+    this.#random = mulberry32(seed);
+    this.#emptyRate = emptyRate;
+    this.#maxItems = maxItems;
+    this.#maxDepth = maxDepth;
+  }
+
+  /** A random integer between min and max, both inclusive */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.#random() * (max - min + 1));
+  }
+
+  public pick<T>(items: readonly T[]): T | undefined {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /**
+   * Generate a value of the type at the path. Beyond the maximal depth of
+   * recursive types optionals and nullables are left empty and arrays are
+   * kept as short as possible.
+   */
+  public value(schema: z.ZodTypeAny, path: string[], depth: number): unknown {
+    const exhausted = depth > this.#maxDepth;
+    const empty = () => exhausted || this.#random() < this.#emptyRate;
+
+    if (schema instanceof z.ZodOptional) {
+      return empty() ? undefined : this.value(schema.unwrap(), path, depth);
+    }
+    if (schema instanceof z.ZodNullable) {
+      return empty() ? null : this.value(schema.unwrap(), path, depth);
+    }
+    if (
+      schema instanceof z.ZodDefault ||
+      schema instanceof z.ZodCatch ||
+      schema instanceof z.ZodReadonly
+    ) {
+      return this.value(schema._def.innerType, path, depth);
+    }
+    if (schema instanceof z.ZodBranded) {
+      return this.value(schema.unwrap(), path, depth);
+    }
+    if (schema instanceof z.ZodLazy) {
+      return this.value(schema.schema, path, depth + 1);
+    }
+    if (schema instanceof z.ZodPipeline) {
+      return this.value(schema._def.in, path, depth);
+    }
+    if (schema instanceof z.ZodEffects) {
+      return this.#refined(schema, path, depth);
+    }
+
+    if (schema instanceof z.ZodObject) {
+      const entries = Object.entries(schema.shape as z.ZodRawShape)
+        .map(([key, value]) => [key, this.value(value, [...path, key], depth)])
+        .filter(([, value]) => value !== undefined);
+      return Object.fromEntries(entries);
+    }
+    if (schema instanceof z.ZodArray) {
+      const { exactLength, minLength, maxLength } = schema._def;
+      return this.#items(
+        exactLength?.value ?? minLength?.value ?? 0,
+        exactLength?.value ?? maxLength?.value,
+        exhausted,
+        () => this.value(schema.element, [...path, "[]"], depth),
+      );
+    }
+    if (schema instanceof z.ZodSet) {
+      const { minSize, maxSize, valueType } = schema._def;
+      const items = new Set<unknown>();
+      const length = this.#length(
+        minSize?.value ?? 0,
+        maxSize?.value,
+        exhausted,
+      );
+      for (let i = 0; i < length * REFINEMENT_ATTEMPTS; i++) {
+        if (items.size >= length) {
+          break;
+        }
+        items.add(this.value(valueType, [...path, "[]"], depth));
+      }
+      return items;
+    }
+    if (schema instanceof z.ZodTuple) {
+      const items = (schema.items as z.ZodTypeAny[]).map((item, index) =>
+        this.value(item, [...path, `[${index}]`], depth),
+      );
+      const rest = schema._def.rest as z.ZodTypeAny | null;
+      return rest
+        ? [
+            ...items,
+            ...this.#items(0, undefined, exhausted, () =>
+              this.value(rest, [...path, "[]"], depth),
+            ),
+          ]
+        : items;
+    }
+    if (schema instanceof z.ZodRecord || schema instanceof z.ZodMap) {
+      const entries = this.#items(0, undefined, exhausted, () => [
+        this.value(schema._def.keyType, path, depth),
+        this.value(schema._def.valueType, [...path, "{}"], depth),
+      ]) as [unknown, unknown][];
+      return schema instanceof z.ZodMap
+        ? new Map(entries)
+        : Object.fromEntries(entries);
+    }
+    if (
+      schema instanceof z.ZodUnion ||
+      schema instanceof z.ZodDiscriminatedUnion
+    ) {
+      const options = schema.options as z.ZodTypeAny[];
+      return this.value(this.pick(options)!, path, depth);
+    }
+    if (schema instanceof z.ZodIntersection) {
+      const left = this.value(schema._def.left, path, depth);
+      const right = this.value(schema._def.right, path, depth);
+      return isRecord(left) && isRecord(right) ? { ...left, ...right } : right;
+    }
+
+    if (schema instanceof z.ZodString) {
+      return this.#string(schema, path);
+    }
+    if (schema instanceof z.ZodNumber) {
+      return this.#number(schema);
+    }
+    if (schema instanceof z.ZodBigInt) {
+      return this.#bigint(schema);
+    }
+    if (schema instanceof z.ZodBoolean) {
+      return this.#random() < 0.5;
+    }
+    if (schema instanceof z.ZodDate) {
+      return this.#date(schema);
+    }
+    if (schema instanceof z.ZodLiteral) {
+      return schema.value;
+    }
+    if (schema instanceof z.ZodEnum) {
+      return this.pick(schema.options as string[]);
+    }
+    if (schema instanceof z.ZodNativeEnum) {
+      const values = Object.entries(schema.enum as Record<string, unknown>)
+        .filter(([key]) => !/^\d+$/.test(key))
+        .map(([, value]) => value);
+      return this.pick(values);
+    }
+    if (schema instanceof z.ZodNull) {
+      return null;
+    }
+    if (
+      schema instanceof z.ZodUndefined ||
+      schema instanceof z.ZodVoid ||
+      schema instanceof z.ZodAny ||
+      schema instanceof z.ZodUnknown
+    ) {
+      return undefined;
+    }
+    if (schema instanceof z.ZodNaN) {
+      return NaN;
+    }
+
+    throw new Error(
+      `Can not generate a value of ${schema.constructor.name} at '${formatPath(path)}'`,
+    );
+  }
+
+  #refined(schema: z.ZodEffects<z.ZodTypeAny>, path: string[], depth: number) {
+    for (let attempt = 0; attempt < REFINEMENT_ATTEMPTS; attempt++) {
+      const value = this.value(schema.innerType(), path, depth);
+      if (
+        schema._def.effect.type !== "refinement" ||
+        schema.safeParse(value).success
+      ) {
+        return value;
+      }
+    }
+    throw new Error(
+      `Can not generate a value passing the refinement at '${formatPath(path)}'`,
+    );
+  }
+
+  #length(min: number, max: number | undefined, exhausted: boolean): number {
+    return exhausted
+      ? min
+      : this.int(min, max ?? Math.max(min, this.#maxItems));
+  }
+
+  #items(
+    min: number,
+    max: number | undefined,
+    exhausted: boolean,
+    item: () => unknown,
+  ): unknown[] {
+    return Array.from({ length: this.#length(min, max, exhausted) }, item);
+  }
+
+  #string(schema: z.ZodString, path: string[]): string {
+    let min = 1;
+    let max: number | undefined;
+    let prefix = "";
+    let suffix = "";
+    let format: z.ZodStringCheck | undefined;
+    for (const check of schema._def.checks) {
+      switch (check.kind) {
+        case "min":
+          min = Math.max(min, check.value);
+          break;
+        case "max":
+          max = Math.min(max ?? Infinity, check.value);
+          break;
+        case "length":
+          min = max = check.value;
+          break;
+        case "startsWith":
+          prefix = check.value + prefix;
+          break;
+        case "endsWith":
+          suffix += check.value;
+          break;
+        case "includes":
+          prefix += check.value;
+          break;
+        case "regex":
+          throw new Error(
+            `Can not generate a string matching ${check.regex} at '${formatPath(path)}'`,
+          );
+        case "email":
+        case "url":
+        case "emoji":
+        case "uuid":
+        case "cuid":
+        case "cuid2":
+        case "ulid":
+        case "datetime":
+        case "ip":
+          format = check;
+          break;
+      }
+    }
+    if (format) {
+      return this.#format(format);
+    }
+
+    const fixed = prefix.length + suffix.length;
+    const lower = Math.max(min, fixed);
+    const upper = max ?? lower + 12;
+    const length = Math.max(0, this.int(Math.min(lower, upper), upper) - fixed);
+    let text = "";
+    while (text.length < length) {
+      text += `${this.pick(WORDS)} `;
+    }
+    text = text.slice(0, length).replace(/ $/, "a");
+    return prefix + text + suffix;
+  }
+
+  #format(check: z.ZodStringCheck): string {
+    switch (check.kind) {
+      case "email":
+        return `${this.pick(WORDS)}${this.int(1, 99)}@example.com`;
+      case "url":
+        return `https://example.com/${this.pick(WORDS)}`;
+      case "emoji":
+        return this.pick(["😀", "🚀", "🎉", "📈"])!;
+      case "uuid": {
+        const hex = this.#chars(HEX, 32);
+        return [
+          hex.slice(0, 8),
+          hex.slice(8, 12),
+          `4${hex.slice(13, 16)}`,
+          `${this.#chars("89ab", 1)}${hex.slice(17, 20)}`,
+          hex.slice(20),
+        ].join("-");
+      }
+      case "cuid":
+        return `c${this.#chars(ALPHANUMERIC, 24)}`;
+      case "cuid2":
+        return this.#chars(ALPHANUMERIC, 24);
+      case "ulid":
+        return this.#chars(CROCKFORD, 26);
+      case "datetime": {
+        const iso = this.#date(z.date()).toISOString();
+        return check.precision === null
+          ? iso
+          : iso.replace(
+              /\.\d+Z$/,
+              check.precision === 0
+                ? "Z"
+                : `.${this.#chars("0123456789", check.precision)}Z`,
+            );
+      }
+      case "ip":
+        return check.version === "v6"
+          ? Array.from({ length: 8 }, () => this.#chars(HEX, 4)).join(":")
+          : Array.from({ length: 4 }, () => this.int(0, 255)).join(".");
+      default:
+        return "";
+    }
+  }
+
+  #chars(alphabet: string, length: number): string {
+    return Array.from({ length }, () => this.pick(alphabet.split(""))).join("");
+  }
+
+  #number(schema: z.ZodNumber): number {
+    let min: number | undefined;
+    let max: number | undefined;
+    let step: number | undefined;
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") {
+        const bound = check.inclusive
+          ? check.value
+          : check.value +
+            (schema.isInt
+              ? 1
+              : Number.EPSILON * Math.max(1, Math.abs(check.value)));
+        min = Math.max(min ?? -Infinity, bound);
+      } else if (check.kind === "max") {
+        const bound = check.inclusive
+          ? check.value
+          : check.value -
+            (schema.isInt
+              ? 1
+              : Number.EPSILON * Math.max(1, Math.abs(check.value)));
+        max = Math.min(max ?? Infinity, bound);
+      } else if (check.kind === "multipleOf") {
+        step = check.value;
+      }
+    }
+    // widen by the default span only on the side without a bound
+    min ??= Math.min(-NUMBER_SPAN, (max ?? NUMBER_SPAN) - NUMBER_SPAN);
+    max ??= Math.max(NUMBER_SPAN, min + NUMBER_SPAN);
+
+    if (step !== undefined) {
+      return step * this.int(Math.ceil(min / step), Math.floor(max / step));
+    }
+    if (schema.isInt) {
+      return this.int(Math.ceil(min), Math.floor(max));
+    }
+    const value = min + this.#random() * (max - min);
+    const rounded = Math.round(value * 100) / 100;
+    return rounded >= min && rounded <= max ? rounded : value;
+  }
+
+  #bigint(schema: z.ZodBigInt): bigint {
+    let min = -1000n;
+    let max = 1000n;
+    let step = 1n;
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") {
+        min = check.inclusive ? check.value : check.value + 1n;
+      } else if (check.kind === "max") {
+        max = check.inclusive ? check.value : check.value - 1n;
+      } else {
+        step = check.value;
+      }
+    }
+    if (min > max) {
+      [min, max] =
+        schema.minValue !== null ? [min, min + 1000n] : [max - 1000n, max];
+    }
+    const first =
+      min % step === 0n ? min : min - (min % step) + (min > 0n ? step : 0n);
+    const steps = Number((max - first) / step);
+    return first + BigInt(this.int(0, steps)) * step;
+  }
+
+  #date(schema: z.ZodDate): Date {
+    const max = schema.maxDate?.getTime();
+    const min =
+      schema.minDate?.getTime() ??
+      Math.min(DATE_START, (max ?? Infinity) - DATE_SPAN);
+    return new Date(this.int(min, max ?? min + DATE_SPAN));
+  }
+}
+
+/**
+ * Seedable pseudo random number generator returning numbers in [0, 1).
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
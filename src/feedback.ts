@@ -0,0 +1,165 @@
+import type { z } from "zod";
+import type { Repo } from "./internals.js";
+import { closestName } from "./parse.js";
+import { formatPath, isRecord } from "./utils.js";
+
+export interface FeedbackOptions {
+  /** Maximum length of the feedback in tokens, problems beyond are cut */
+  readonly maxTokens?: number;
+  /** Counts the tokens of a text, estimated as 4 characters per token */
+  readonly countTokens?: (text: string) => number;
+}
+
+/**
+ * Describe why the output is not a valid instance of a schema of the repo as
+ * instructions for the model to correct it. Returns `null` for valid output.
+ * The feedback never exceeds `maxTokens`: problems are left out first, then
+ * the text itself is cut.
+ */
+export function formatFeedback(
+  repo: Repo,
+  output: unknown,
+  { maxTokens = Infinity, countTokens = estimateTokens }: FeedbackOptions = {},
+): string | null {
+  const key = repo.discriminator;
+  const names = repo.schemas.map((schema) =>
+    String(schema.shape[key]._def.value),
+  );
+  const allowed = names.map((name) => JSON.stringify(name)).join(", ");
+
+  if (!isRecord(output)) {
+    return fit(
+      `The output must be a JSON object with the field "${key}" set to one of: ${allowed}.`,
+      maxTokens,
+      countTokens,
+    );
+  }
+
+  const name = String(output[key]);
+  const schema = repo.factory(name);
+  if (!schema) {
+    const closest =
+      typeof output[key] === "string" ? closestName(name, names) : null;
+    return fit(
+      [
+        key in output
+          ? `The field "${key}" has the unknown value ${JSON.stringify(output[key])}.`
+          : `The field "${key}" is missing.`,
+        `Set it to one of: ${allowed}.`,
+        ...(closest === null
+          ? []
+          : [`Did you mean ${JSON.stringify(closest)}?`]),
+      ].join(" "),
+      maxTokens,
+      countTokens,
+    );
+  }
+
+  const result = schema.safeParse(output);
+  if (result.success) {
+    return null;
+  }
+
+  const summary = `The output is not a valid "${name}".`;
+  const header = `${summary} Fix the following problems and answer with the complete corrected JSON:`;
+  if (countTokens(header) > maxTokens) {
+    return fit(summary, maxTokens, countTokens);
+  }
+  const problems = result.error.issues.map(
+    (issue) => `- ${issuePath(issue.path)}: ${describeIssue(issue)}`,
+  );
+  return truncate(header, problems, maxTokens, countTokens);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Render the path of an issue, e.g. `points[0].x`.
+ */
+function issuePath(path: (string | number)[]): string {
+  return path.length
+    ? formatPath(
+        path.map((segment) =>
+          typeof segment === "number" ? `[${segment}]` : segment,
+        ),
+      )
+    : "(root)";
+}
+
+function describeIssue(issue: z.ZodIssue): string {
+  switch (issue.code) {
+    case "invalid_type":
+      return issue.received === "undefined"
+        ? `Required field is missing, expected ${issue.expected}`
+        : `Expected ${issue.expected}, received ${issue.received}`;
+    case "invalid_literal":
+      return `Must be exactly ${JSON.stringify(issue.expected)}`;
+    case "invalid_enum_value":
+      return `Invalid value ${JSON.stringify(issue.received)}, allowed values: ${issue.options.map((option) => JSON.stringify(option)).join(", ")}`;
+    case "invalid_union_discriminator":
+      return `Invalid discriminator, allowed values: ${issue.options.map((option) => JSON.stringify(option)).join(", ")}`;
+    case "unrecognized_keys":
+      return `Remove the unknown fields ${issue.keys.map((key) => JSON.stringify(key)).join(", ")}`;
+    default:
+      return issue.message;
+  }
+}
+
+/**
+ * Join the header with as many problems as fit into the token budget and
+ * mention how many were left out, if that still fits.
+ */
+function truncate(
+  header: string,
+  problems: string[],
+  maxTokens: number,
+  countTokens: (text: string) => number,
+): string {
+  const lines = [header];
+  for (const [index, problem] of problems.entries()) {
+    const rest = problems.length - index - 1;
+    const candidate = [...lines, problem, ...(rest ? [omitted(rest)] : [])];
+    if (countTokens(candidate.join("\n")) > maxTokens) {
+      const note = omitted(problems.length - index);
+      if (countTokens([...lines, note].join("\n")) <= maxTokens) {
+        lines.push(note);
+      }
+      break;
+    }
+    lines.push(problem);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Cut the text after the last word fitting into the token budget.
+ */
+function fit(
+  text: string,
+  maxTokens: number,
+  countTokens: (text: string) => number,
+): string {
+  if (countTokens(text) <= maxTokens) {
+    return text;
+  }
+  // the longest prefix within the budget, by binary search
+  let low = 0;
+  let high = text.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (countTokens(text.slice(0, middle)) <= maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  const prefix = text.slice(0, low);
+  const space = prefix.lastIndexOf(" ");
+  return space > 0 ? prefix.slice(0, space) : prefix;
+}
+
+function omitted(count: number): string {
+  return `- ... and ${count} more problem${count === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,178 @@
+import type { z } from "zod";
+import { formatFeedback, type FeedbackOptions } from "./feedback.js";
+import type { HydrateResult } from "./hydrate.js";
+import type { Repo } from "./internals.js";
+import type { JSONSchema } from "./json-schema.js";
+import type { ParseOptions } from "./parse.js";
+
+export interface ModelMessage {
+  readonly role: "system" | "user" | "assistant";
+  readonly content: string;
+}
+
+/**
+ * A request to the model: the conversation so far and the JSON schema of the
+ * llm repo the answer has to match.
+ */
+export interface ModelRequest {
+  readonly messages: ModelMessage[];
+  readonly schema: JSONSchema;
+  /** The attempt this request belongs to, starting at 1 */
+  readonly attempt: number;
+}
+
+/**
+ * The minimal interface of a model, returning the raw text of its answer.
+ * Adapt the SDK of any provider by implementing `complete`.
+ */
+export interface ModelClient {
+  complete(request: ModelRequest): Promise<string>;
+}
+
+export interface GenerateOptions<C = undefined> {
+  /** Instructions sent as system message before the prompt */
+  readonly system?: string;
+  /** Number of retries after a failed attempt, defaults to 2 */
+  readonly retries?: number;
+  /**
+   * Milliseconds to wait before the retry (starting at 1), defaults to
+   * 250ms doubled with every retry.
+   */
+  readonly backoff?: (retry: number) => number;
+  /** Repairs applied to the answers, see `parseLLMOutput` */
+  readonly parse?: ParseOptions;
+  /** Options of the feedback sent after an invalid answer */
+  readonly feedback?: FeedbackOptions;
+  /** Passed to the providers when hydrating the answer */
+  readonly context?: C;
+}
+
+export type GenerateResult<T = Record<string, unknown>> =
+  | { success: true; type: string; data: T; attempts: number }
+  | { success: false; error: GenerationError };
+
+/**
+ * Returned by `generate` if no valid answer was received.
+ */
+export class GenerationError extends Error {
+  constructor(
+    message: string,
+    /** The number of requests sent to the model */
+    public readonly attempts: number,
+    /** The error of every failed attempt */
+    public readonly errors: Error[],
+  ) {
+    super(message);
+    this.name = "GenerationError";
+  }
+}
+
+/**
+ * Ask the model for an instance of the repo, parse and validate the answer
+ * and reprompt with feedback until it is valid or the retries are used up.
+ * Errors of the client are retried without feedback. The valid answer is
+ * hydrated into an instance of the original schema.
+ */
+export async function generate<C>(
+  repo: Repo,
+  hydrate: (output: Record<string, unknown>, context?: C) => HydrateResult,
+  client: ModelClient,
+  prompt: string,
+  options: GenerateOptions<C> = {},
+): Promise<GenerateResult> {
+  const { retries = 2, backoff = (retry) => 250 * 2 ** (retry - 1) } = options;
+  if (!repo.schemas.length) {
+    return {
+      success: false,
+      error: new GenerationError(
+        "Generation failed: no schema registered for the llm repo",
+        0,
+        [],
+      ),
+    };
+  }
+  const schema =
+    repo.schemas.length === 1
+      ? repo.toJSONSchema({ type: typeName(repo.schemas[0]!, repo) })
+      : repo.toJSONSchema("union");
+  const messages: ModelMessage[] = [
+    ...(options.system === undefined
+      ? []
+      : [{ role: "system" as const, content: options.system }]),
+    { role: "user", content: prompt },
+  ];
+  const errors: Error[] = [];
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    if (attempt > 1) {
+      await sleep(backoff(attempt - 1));
+    }
+
+    let text: string;
+    try {
+      text = await client.complete({
+        messages: [...messages],
+        schema,
+        attempt,
+      });
+    } catch (error) {
+      errors.push(error instanceof Error ? error : new Error(String(error)));
+      continue;
+    }
+
+    const parsed = repo.parseLLMOutput(text, options.parse);
+    if (!parsed.success) {
+      errors.push(parsed.error);
+      messages.push(
+        { role: "assistant", content: text },
+        {
+          role: "user",
+          content:
+            parsed.output === undefined
+              ? `${parsed.error.message}. Answer with a single JSON object.`
+              : (formatFeedback(repo, parsed.output, options.feedback) ??
+                parsed.error.message),
+        },
+      );
+      continue;
+    }
+
+    const hydrated = hydrate(parsed.data, options.context);
+    if (!hydrated.success) {
+      errors.push(hydrated.error);
+      return {
+        success: false,
+        error: new GenerationError(
+          `Generation failed: ${hydrated.error.message}`,
+          attempt,
+          errors,
+        ),
+      };
+    }
+    return {
+      success: true,
+      type: String(parsed.data[repo.discriminator]),
+      data: hydrated.data,
+      attempts: attempt,
+    };
+  }
+
+  return {
+    success: false,
+    error: new GenerationError(
+      `Generation failed after ${retries + 1} attempts: ${errors.at(-1)?.message}`,
+      retries + 1,
+      errors,
+    ),
+  };
+}
+
+function typeName(schema: z.AnyZodObject, repo: Repo): string {
+  return String(schema.shape[repo.discriminator]._def.value);
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0
+    ? new Promise((resolve) => setTimeout(resolve, ms))
+    : Promise.resolve();
+}
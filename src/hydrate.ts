@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { restoreOptionals } from "./restore.js";
+import { formatPath, isRecord, unwrap } from "./utils.js";
+
+/**
+ * Information passed to a field provider.
+ */
+export interface ProviderContext<C = unknown> {
+  /** Full path of the field that is provided, e.g. `["items", "[]", "id"]` */
+  readonly path: string[];
+  /** The type (value of the literal) of the schema being hydrated */
+  readonly typeName: string;
+  /** The context passed to `hydrate` (tenant, user, clock, ...) */
+  readonly context: C;
+}
+
+/**
+ * Produces the value of a field that was hidden from the LLM.
+ */
+export type FieldProvider<C = unknown> = (
+  context: ProviderContext<C>,
+) => unknown;
+
+/**
+ * Field providers keyed by the formatted path of the field (see `formatPath`),
+ * e.g. `{ id: () => randomUUID(), "items[].id": () => randomUUID() }`.
+ */
+export type FieldProviders<C = unknown> = Record<string, FieldProvider<C>>;
+
+export type HydrateResult<T = Record<string, unknown>> =
+  | { success: true; data: T }
+  | { success: false; error: HydrationError };
+
+/**
+ * Returned by `hydrate` if the output can not be turned into a valid
+ * instance of the original schema.
+ */
+export class HydrationError extends Error {
+  constructor(
+    message: string,
+    /** The type of the output, `null` if it has none */
+    public readonly typeName: string | null,
+    /** The validation issues against the original schema */
+    public readonly issues: z.ZodIssue[] = [],
+  ) {
+    super(message);
+    this.name = "HydrationError";
+  }
+}
+
+/**
+ * Turn an object parsed with an LLM schema into a valid instance of the
+ * original schema: `null`s are restored, missing fields are filled by the
+ * providers, defaults are reapplied and the result is validated.
+ */
+export function hydrate<C>(
+  schema: z.AnyZodObject,
+  typeName: string,
+  output: Record<string, unknown>,
+  providers: FieldProviders<C>,
+  context: C,
+): HydrateResult {
+  const restored = restoreOptionals(schema, output);
+  const provided = provideFields(schema, restored, providers, {
+    path: [],
+    typeName,
+    context,
+  });
+
+  const result = schema.safeParse(provided);
+  if (!result.success) {
+    return {
+      success: false,
+      error: new HydrationError(
+        `Output is not a valid '${typeName}': ${result.error.message}`,
+        typeName,
+        result.error.issues,
+      ),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Fill the missing fields of every object nested inside of the value for
+ * which a provider exists.
+ */
+function provideFields<C>(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  providers: FieldProviders<C>,
+  context: ProviderContext<C>,
+): unknown {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodObject && isRecord(value)) {
+    const filled: Record<string, unknown> = { ...value };
+    for (const [key, field] of Object.entries(inner.shape as z.ZodRawShape)) {
+      const path = [...context.path, key];
+      const provider = providers[formatPath(path)];
+      if (filled[key] === undefined && provider) {
+        filled[key] = provider({ ...context, path });
+      }
+      filled[key] = provideFields(field, filled[key], providers, {
+        ...context,
+        path,
+      });
+      if (filled[key] === undefined && !(key in value)) {
+        delete filled[key];
+      }
+    }
+    return filled;
+  }
+
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((item) =>
+      provideFields(inner.element, item, providers, {
+        ...context,
+        path: [...context.path, "[]"],
+      }),
+    );
+  }
+
+  if (inner instanceof z.ZodDiscriminatedUnion && isRecord(value)) {
+    const option = inner.optionsMap.get(value[inner.discriminator] as never);
+    return option ? provideFields(option, value, providers, context) : value;
+  }
+
+  if (inner instanceof z.ZodUnion) {
+    for (const option of inner.options as z.ZodTypeAny[]) {
+      const filled = provideFields(option, value, providers, context);
+      if (option.safeParse(filled).success) {
+        return filled;
+      }
+    }
+  }
+
+  return value;
+}
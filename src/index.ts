@@ -1,25 +1,195 @@
 import { z } from "zod";
+import type { CompatibilityReport } from "./compatibility.js";
+import type { HydrateResult } from "./hydrate.js";
+import type { ProviderName, ProviderProfile } from "./profiles.js";
+import type { RegistryEvents, RegistryListener } from "./events.js";
+import type { FeedbackOptions } from "./feedback.js";
+import type {
+  GenerateOptions,
+  GenerateResult,
+  ModelClient,
+} from "./generate.js";
+import type { MatchFallback, MatchHandlers } from "./match.js";
+import type { MigrationResult } from "./migrations.js";
+import type { RegisterManyResult } from "./registration.js";
+import type { RegistrySnapshot } from "./snapshot.js";
+import type {
+  AnthropicTool,
+  OpenAITool,
+  ToolCall,
+  ToolCallResult,
+} from "./tools.js";
 import {
   Registry,
+  type RegisterOptions,
+  type RegistryEntry,
+  type RegistryScope,
   type Repo,
+  type ScopeSelector,
   type RegistryOptions,
   type SchemaFilter,
 } from "./internals.js";
+import { createTypedRuntime, type TypedRegistryType } from "./typed.js";
 
-export type { Repo, SchemaFilter } from "./internals.js";
+export type {
+  DiscriminatorKeys,
+  FilterContext,
+  RegisterOptions,
+  RegistryEntry,
+  RegistryOptions,
+  RegistryScope,
+  Repo,
+  SchemaFilter,
+  SchemaMetadata,
+  ScopeSelector,
+} from "./internals.js";
+export { formatPath } from "./utils.js";
+export { restoreOptionals } from "./restore.js";
+export { HydrationError } from "./hydrate.js";
+export { RegistrationError } from "./registration.js";
+export { MigrationError } from "./migrations.js";
+export { MatchError } from "./match.js";
+export { formatFeedback } from "./feedback.js";
+export { GenerationError } from "./generate.js";
+export type {
+  GenerateOptions,
+  GenerateResult,
+  ModelClient,
+  ModelMessage,
+  ModelRequest,
+} from "./generate.js";
+export { fake } from "./fake.js";
+export type { CountLimits, ListOptions, ListSchema } from "./list.js";
+export type { FakeOptions, FakeOutputOptions } from "./fake.js";
+export { FakeModelClient } from "./fake-client.js";
+export type { FakeResponse } from "./fake-client.js";
+export type { FeedbackOptions } from "./feedback.js";
+export { OutputParseError } from "./parse.js";
+export { StreamParser } from "./stream.js";
+export type {
+  DeepPartial,
+  StreamParserOptions,
+  StreamResult,
+  StreamUpdate,
+} from "./stream.js";
+export type { ParseOptions, ParseResult, Repair, RepairKind } from "./parse.js";
+export type { MatchFallback, MatchHandlers } from "./match.js";
+export type { RegistrySnapshot } from "./snapshot.js";
+export type {
+  RegistryEvent,
+  RegistryEvents,
+  RegistryListener,
+} from "./events.js";
+export type { Migration, MigrationResult } from "./migrations.js";
+export type {
+  ConflictPolicy,
+  RegisterManyResult,
+  RegistrationIssue,
+  RegistrationIssueCode,
+} from "./registration.js";
+export {
+  checkBudget,
+  checkCompatibility,
+  IncompatibleSchemaError,
+} from "./compatibility.js";
+export type {
+  CompatibilityIssue,
+  CompatibilityIssueCode,
+  CompatibilityReport,
+  IncompatibleSchemaAction,
+} from "./compatibility.js";
+export {
+  anthropicProfile,
+  geminiProfile,
+  openaiProfile,
+  providerProfiles,
+  ROOT_KEY,
+  structuredOutputsProfile,
+} from "./profiles.js";
+export type { ProviderName, ProviderProfile } from "./profiles.js";
+export { toJSONSchema } from "./json-schema.js";
+export type { JSONSchema, JSONSchemaTarget } from "./json-schema.js";
+export { dispatchToolCall, toTools, ToolCallError } from "./tools.js";
+export type {
+  AnthropicTool,
+  OpenAITool,
+  ToolCall,
+  ToolCallResult,
+  ToolFormat,
+} from "./tools.js";
+export type {
+  DiscriminatorOf,
+  LLMSchema,
+  LLMSchemas,
+  LLMType,
+  NullableOptionalsOf,
+  OriginalSchemas,
+  TypedEntry,
+  TypedMatchHandlers,
+  TypedRegistryType,
+  TypedRepo,
+  TypeMap,
+} from "./typed.js";
+export type {
+  FieldProvider,
+  FieldProviders,
+  HydrateResult,
+  ProviderContext,
+} from "./hydrate.js";
 
 export interface RegistryType {
   get llm(): Repo;
   get original(): Repo;
   get globalBlacklist(): SchemaFilter[];
+  get profile(): ProviderProfile;
+  llmFor(profile: ProviderProfile | ProviderName): Repo;
+  scope(selector: ScopeSelector): RegistryScope;
+  snapshot(): RegistrySnapshot;
   register(
     schema: z.AnyZodObject,
     localBlacklist?: SchemaFilter[],
-    opts?: { ignoreLLM?: boolean },
-  ): void;
+    opts?: RegisterOptions,
+  ): z.AnyZodObject | null;
+  registerMany(entries: RegistryEntry[]): RegisterManyResult;
   unregister(name: string): z.AnyZodObject | null;
+  migrate(payload: Record<string, unknown>, version: number): MigrationResult;
+  on<E extends keyof RegistryEvents>(
+    event: E,
+    listener: RegistryListener<E>,
+  ): () => void;
+  restoreOptionals(output: Record<string, unknown>): Record<string, unknown>;
+  checkCompatibility(name?: string): CompatibilityReport[];
+  checkBudget(profile?: ProviderProfile | ProviderName): CompatibilityReport;
+  hydrate<C = undefined>(
+    output: Record<string, unknown>,
+    context?: C,
+  ): HydrateResult;
+  tools(format: "openai"): OpenAITool[];
+  tools(format: "anthropic"): AnthropicTool[];
+  dispatchToolCall(call: ToolCall): ToolCallResult;
+  match<R>(
+    output: Record<string, unknown>,
+    handlers: MatchHandlers<R>,
+    fallback?: MatchFallback<R>,
+  ): R;
+  feedback(output: unknown, options?: FeedbackOptions): string | null;
+  generate<C = undefined>(
+    client: ModelClient,
+    prompt: string,
+    options?: GenerateOptions<C>,
+  ): Promise<GenerateResult>;
 }
 
 export function createRegistry(options?: RegistryOptions): RegistryType {
   return new Registry(options);
 }
+
+/**
+ * Creates a registry whose `register` calls can be chained to accumulate the
+ * types of the registered schemas, see `TypedRegistryType`.
+ */
+export function createTypedRegistry<const O extends RegistryOptions = {}>(
+  options?: O,
+): TypedRegistryType<{}, O> {
+  return createTypedRuntime(options) as unknown as TypedRegistryType<{}, O>;
+}
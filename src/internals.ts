@@ -1,12 +1,215 @@
 import { z } from "zod";
+import {
+  checkBudget,
+  checkCompatibility,
+  IncompatibleSchemaError,
+  type CompatibilityReport,
+  type IncompatibleSchemaAction,
+} from "./compatibility.js";
+import {
+  Emitter,
+  type RegistryEvent,
+  type RegistryEvents,
+  type RegistryListener,
+} from "./events.js";
+import {
+  hydrate,
+  HydrationError,
+  type FieldProviders,
+  type HydrateResult,
+} from "./hydrate.js";
+import {
+  toJSONSchema,
+  type JSONSchema,
+  type JSONSchemaTarget,
+} from "./json-schema.js";
+import {
+  resolveProfile,
+  ROOT_KEY,
+  type ProviderName,
+  type ProviderProfile,
+} from "./profiles.js";
+import {
+  RegistrationError,
+  type ConflictPolicy,
+  type RegisterManyResult,
+  type RegistrationIssue,
+} from "./registration.js";
+import {
+  migrate,
+  MigrationError,
+  type Migration,
+  type MigrationResult,
+} from "./migrations.js";
+import { fakeOutput, type FakeOutputOptions } from "./fake.js";
+import { formatFeedback, type FeedbackOptions } from "./feedback.js";
+import {
+  generate,
+  type GenerateOptions,
+  type GenerateResult,
+  type ModelClient,
+} from "./generate.js";
+import { listSchema, type ListOptions, type ListSchema } from "./list.js";
+import { match, type MatchFallback, type MatchHandlers } from "./match.js";
+import {
+  parseLLMOutput,
+  type ParseOptions,
+  type ParseResult,
+} from "./parse.js";
+import { restoreOptionals } from "./restore.js";
+import { StreamParser, type StreamParserOptions } from "./stream.js";
+import { createSnapshot, type RegistrySnapshot } from "./snapshot.js";
+import {
+  dispatchToolCall,
+  toTools,
+  type AnthropicTool,
+  type OpenAITool,
+  type ToolCall,
+  type ToolCallResult,
+  type ToolFormat,
+} from "./tools.js";
+import { formatPath, withLazySource } from "./utils.js";
 
-export type SchemaFilter = (key: string, schema: z.AnyZodObject) => boolean;
+/**
+ * Location of a field inside of a registered schema.
+ */
+export interface FilterContext {
+  /**
+   * Full path of the field. Object keys are used as is, items of arrays and
+   * sets are marked with `[]`, tuple items with `[<index>]` and values of
+   * records and maps with `{}`, e.g. `["items", "[]", "cost"]`.
+   */
+  readonly path: string[];
+  /** The type (value of the literal) of the schema owning the field */
+  readonly typeName: string;
+}
+
+/**
+ * Returns `true` if the field should be hidden from the LLM. Filters are
+ * applied to the fields of every object nested inside of a schema.
+ */
+export type SchemaFilter = (
+  key: string,
+  schema: z.AnyZodObject,
+  context: FilterContext,
+) => boolean;
+
+/**
+ * Keys of the literal field discriminating the schemas in the original and
+ * the llm repo.
+ */
+export interface DiscriminatorKeys {
+  readonly original: string;
+  readonly llm: string;
+}
 
 export interface RegistryOptions {
   readonly globalBlacklist?: SchemaFilter[];
+  /**
+   * Key of the literal field discriminating the registered schemas, defaults
+   * to `type`. Pass different keys for the original and the llm repo to
+   * rename the field in the llm schemas.
+   */
+  readonly discriminator?: string | DiscriminatorKeys;
+  /**
+   * Turn optionals and defaults into required but nullable fields in the
+   * llm repo (as expected by OpenAI's strict mode) instead of plain required
+   * fields. Use `restoreOptionals` to map the LLM output back. Defaults to
+   * the `optionals` setting of the profile.
+   */
+  readonly nullableOptionals?: boolean;
+  /**
+   * Providers for fields hidden from the LLM, used by `hydrate` for every
+   * registered schema.
+   */
+  readonly providers?: FieldProviders<any>;
+  /**
+   * Profile (or name of a built-in profile) of the structured output
+   * provider the llm repo is built for and checked against, defaults to
+   * `structuredOutputsProfile`.
+   */
+  readonly profile?: ProviderProfile | ProviderName;
+  /**
+   * Check every schema registered for the llm repo against the profile and
+   * throw, warn or drop the offending fields. Not checked if unset.
+   */
+  readonly onIncompatible?: IncompatibleSchemaAction;
+  /**
+   * What to do when a type is registered again, see `ConflictPolicy`.
+   * Defaults to `replace` for `register` and `error` for `registerMany`.
+   */
+  readonly onConflict?: ConflictPolicy;
+}
+
+export interface RegisterOptions {
+  /** Only register the schema in the original repo */
+  readonly ignoreLLM?: boolean;
+  /** Providers for the fields of this schema hidden from the LLM */
+  readonly providers?: FieldProviders<any>;
+  /**
+   * Register the schema as this version of its type, keeping the other
+   * versions. The highest version is the current one, unless another
+   * version is marked as `current`.
+   */
+  readonly version?: number;
+  /** Make this version the current one, used by `union` and `factory` */
+  readonly current?: boolean;
+  /** Upgrades a payload of the previous version to this version */
+  readonly migrate?: Migration;
+  /** Describes the schema and when to choose it */
+  readonly metadata?: SchemaMetadata;
+}
+
+/**
+ * Information about a registered schema, stored alongside both repos.
+ */
+export interface SchemaMetadata {
+  /** Human readable description, preferred over the schema description */
+  readonly description?: string;
+  /** Guidance for the model when to choose this type */
+  readonly chooseWhen?: string;
+  /** Tags to select the schema in a scope, see `Registry.scope` */
+  readonly tags?: string[];
+  /** Team or module owning the schema */
+  readonly owner?: string;
+  /** Example instances, they must be valid against the original schema */
+  readonly examples?: Record<string, unknown>[];
+}
+
+/**
+ * Selects the types of a scope: a list of types, tags of which a type needs
+ * at least one, or a predicate receiving the original schema.
+ */
+export type ScopeSelector =
+  | string[]
+  | { readonly tags: string[] }
+  | ((name: string, schema: z.AnyZodObject) => boolean);
+
+/**
+ * Read-only view of the registry containing only the selected types.
+ */
+export interface RegistryScope {
+  readonly llm: Repo;
+  readonly original: Repo;
 }
 
+/**
+ * A schema to register with `registerMany`, with the arguments of
+ * `register`.
+ */
+export type RegistryEntry =
+  | z.AnyZodObject
+  | {
+      readonly schema: z.AnyZodObject;
+      readonly localBlacklist?: SchemaFilter[];
+      readonly opts?: RegisterOptions;
+    };
+
 export interface Repo {
+  /** Key of the literal field discriminating the schemas */
+  get discriminator(): string;
+  /** The profile an llm repo is built for, `null` for the original repo */
+  get profile(): ProviderProfile | null;
   get schemas(): z.AnyZodObject[];
   get enum(): z.ZodEnum<[string, ...string[]]>;
   get union(): z.ZodDiscriminatedUnion<
@@ -14,31 +217,85 @@ export interface Repo {
     [z.AnyZodObject, ...z.AnyZodObject[]]
   >;
 
-  factory(name: string): z.AnyZodObject | null;
+  factory(name: string, version?: number): z.AnyZodObject | null;
+  /** The registered versions of the type, ascending */
+  versions(name: string): number[];
+  /** The current version of the type, `null` if it is not registered */
+  currentVersion(name: string): number | null;
+  /**
+   * Metadata of the type (current version by default), `null` if it is not
+   * registered.
+   */
+  metadata(name: string, version?: number): SchemaMetadata | null;
+  toJSONSchema(target?: JSONSchemaTarget): JSONSchema;
+  /**
+   * Parses the raw text of a model with the schema of its type, repairing
+   * common mistakes. The applied repairs are returned with the result.
+   */
+  parseLLMOutput(text: string, options?: ParseOptions): ParseResult;
+  /** Creates a parser for an output streamed in text chunks */
+  createStreamParser(options?: StreamParserOptions): StreamParser;
+  /** Generates a valid instance of one of the schemas, see `fake` */
+  fake(options?: FakeOutputOptions): Record<string, unknown>;
+  /** Builds the schema of an object holding a list of instances */
+  list(options?: ListOptions): ListSchema;
 }
 
 interface Modifiable {
-  add(schema: z.AnyZodObject): void;
+  add(
+    schema: z.AnyZodObject,
+    version?: number,
+    metadata?: SchemaMetadata,
+  ): void;
+  setCurrent(name: string, version: number): void;
   remove(name: string): z.AnyZodObject | null;
+  /** Copies the repo into a repo which can not be modified */
+  snapshot(): Repo;
 }
 
 type ModifiableRepo = Repo & Modifiable;
 
+interface Registration {
+  readonly schema: z.AnyZodObject;
+  readonly localBlacklist: SchemaFilter[];
+  readonly ignoreLLM: boolean;
+  readonly version: number | undefined;
+  readonly current: boolean;
+  readonly migrate: Migration | undefined;
+  readonly metadata: SchemaMetadata;
+}
+
+/**
+ * A validated registration which has not been added to the repos yet.
+ */
+interface PreparedRegistration {
+  readonly name: string;
+  readonly registration: Registration;
+  readonly llmSchema: z.AnyZodObject | null;
+  readonly providers: FieldProviders<any>;
+}
+
 class SchemaRepo implements ModifiableRepo {
+  /** The current version of every type */
   #schemas: Record<string | number | symbol, z.AnyZodObject> = {};
+  #versions: Record<string, Record<number, z.AnyZodObject>> = {};
+  #metadata: Record<string, Record<number, SchemaMetadata>> = {};
+  /** Versions marked as current, the highest version is current otherwise */
+  #pinned: Record<string, number> = {};
 
-  #_constructUnion(
-    schema: Record<string, z.AnyZodObject>,
-  ): z.ZodDiscriminatedUnion<string, [z.AnyZodObject, ...z.AnyZodObject[]]> {
-    const schemas = Object.values(schema);
-    if (schemas.length < 2) {
-      throw new Error("At least 2 schemas are required to construct a union");
-    }
-    return z.discriminatedUnion(
-      "type",
-      schemas as [z.AnyZodObject, ...z.AnyZodObject[]],
-    );
-  }
+  /** Derived schemas, reset whenever the current schemas change */
+  #union: z.ZodDiscriminatedUnion<
+    string,
+    [z.AnyZodObject, ...z.AnyZodObject[]]
+  > | null = null;
+  #enum: z.ZodEnum<[string, ...string[]]> | null = null;
+
+  #frozen = false;
+
+  constructor(
+    public readonly discriminator: string = "type",
+    public readonly profile: ProviderProfile | null = null,
+  ) {}
 
   public get schemas(): z.AnyZodObject[] {
     return Object.values(this.#schemas);
@@ -48,38 +305,338 @@ class SchemaRepo implements ModifiableRepo {
     string,
     [z.AnyZodObject, ...z.AnyZodObject[]]
   > {
-    return this.#_constructUnion(this.#schemas);
+    return (this.#union ??= constructUnion(this.discriminator, this.schemas));
   }
 
   public get enum(): z.ZodEnum<[string, ...string[]]> {
-    const keys = Object.keys(this.#schemas);
-    if (keys.length < 2) {
-      throw new Error("At least 2 schemas are required to construct an enum");
-    }
-    return z.enum(keys as [string, ...string[]]);
+    return (this.#enum ??= constructEnum(Object.keys(this.#schemas)));
   }
 
   /**
    * Gets the schema object with the type (defined by the literal)
-   * is equal to the argument name.
+   * is equal to the argument name. Without a version the current version
+   * is returned.
    */
-  public factory(name: string): z.AnyZodObject | null {
-    return this.#schemas[name] ?? null;
+  public factory(name: string, version?: number): z.AnyZodObject | null {
+    if (version === undefined) {
+      return this.#schemas[name] ?? null;
+    }
+    return this.#versions[name]?.[version] ?? null;
+  }
+
+  public versions(name: string): number[] {
+    return Object.keys(this.#versions[name] ?? {}).map(Number);
+  }
+
+  public currentVersion(name: string): number | null {
+    const versions = this.versions(name);
+    if (!versions.length) {
+      return null;
+    }
+    return this.#pinned[name] ?? Math.max(...versions);
+  }
+
+  public metadata(name: string, version?: number): SchemaMetadata | null {
+    const resolved = version ?? this.currentVersion(name);
+    return resolved === null
+      ? null
+      : (this.#metadata[name]?.[resolved] ?? null);
+  }
+
+  /**
+   * Exports the union (default), the enum or the schema of a single type as
+   * draft 2020-12 JSON schema. The union is wrapped in an object under
+   * `ROOT_KEY` if the profile requires an object at the root.
+   */
+  public toJSONSchema(target: JSONSchemaTarget = "union"): JSONSchema {
+    return exportJSONSchema(this, target);
+  }
+
+  public parseLLMOutput(text: string, options?: ParseOptions): ParseResult {
+    return parseLLMOutput(this, text, options);
+  }
+
+  public createStreamParser(options?: StreamParserOptions): StreamParser {
+    return new StreamParser(this, options);
+  }
+
+  public fake(options?: FakeOutputOptions): Record<string, unknown> {
+    return fakeOutput(this, options);
+  }
+
+  public list(options?: ListOptions): ListSchema {
+    return listSchema(this, options);
   }
 
-  add(schema: z.AnyZodObject): void {
-    const typeField = schema.shape.type as z.ZodLiteral<any>;
+  /**
+   * Adds the schema as the version of its type. Without a version all
+   * versions of the type are replaced by the schema as version 1.
+   */
+  add(
+    schema: z.AnyZodObject,
+    version?: number,
+    metadata: SchemaMetadata = {},
+  ): void {
+    this.#_assertModifiable();
+    const typeField = schema.shape[this.discriminator] as z.ZodLiteral<any>;
     if (!typeField || !typeField._def || typeField._def.value === undefined) {
-      throw new Error("Schema must have a type field with a value");
+      throw new Error(
+        `Schema must have a ${this.discriminator} field with a value`,
+      );
+    }
+    const name = typeField._def.value;
+    if (version === undefined) {
+      this.#versions[name] = { 1: schema };
+      this.#metadata[name] = { 1: metadata };
+      delete this.#pinned[name];
+    } else {
+      (this.#versions[name] ??= {})[version] = schema;
+      (this.#metadata[name] ??= {})[version] = metadata;
     }
-    this.#schemas[typeField._def.value] = schema;
+    this.#_updateCurrent(name);
+  }
+
+  /**
+   * Marks the version as current, ignored if the version does not exist.
+   */
+  setCurrent(name: string, version: number): void {
+    this.#_assertModifiable();
+    if (this.#versions[name]?.[version]) {
+      this.#pinned[name] = version;
+      this.#_updateCurrent(name);
+    }
+  }
+
+  #_updateCurrent(name: string): void {
+    const current = this.#versions[name]![this.currentVersion(name)!]!;
+    if (this.#schemas[name] !== current) {
+      this.#schemas[name] = current;
+      this.#_invalidate();
+    }
+  }
+
+  #_invalidate(): void {
+    this.#union = null;
+    this.#enum = null;
   }
 
   remove(name: string): z.AnyZodObject | null {
+    this.#_assertModifiable();
     const deleted = this.#schemas[name];
     delete this.#schemas[name];
+    delete this.#versions[name];
+    delete this.#metadata[name];
+    delete this.#pinned[name];
+    if (deleted) {
+      this.#_invalidate();
+    }
     return deleted ?? null;
   }
+
+  /**
+   * Copies the records of the repo, the schemas and the memoized union and
+   * enum are shared with the copy.
+   */
+  snapshot(): Repo {
+    const copy = new SchemaRepo(this.discriminator, this.profile);
+    copy.#schemas = { ...this.#schemas };
+    copy.#versions = mapValues(this.#versions, (versions) => ({ ...versions }));
+    copy.#metadata = mapValues(this.#metadata, (metadata) => ({ ...metadata }));
+    copy.#pinned = { ...this.#pinned };
+    copy.#union = this.#union;
+    copy.#enum = this.#enum;
+    copy.#frozen = true;
+    return Object.freeze(copy);
+  }
+
+  #_assertModifiable(): void {
+    if (this.#frozen) {
+      throw new Error("A snapshot can not be modified");
+    }
+  }
+}
+
+function mapValues<T, U>(
+  record: Record<string, T>,
+  fn: (value: T) => U,
+): Record<string, U> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, fn(value)]),
+  );
+}
+
+/**
+ * Read-only view of the schemas of a repo whose type is selected, the
+ * schemas are looked up in the repo on every access.
+ */
+class ScopedRepo implements Repo {
+  #repo: Repo;
+  #selects: (name: string) => boolean;
+
+  /** Type names of the schemas, reading the shape of merged objects is slow */
+  #names = new WeakMap<z.AnyZodObject, string>();
+
+  /** Derived schemas of the last selection, reused while it is unchanged */
+  #selected: z.AnyZodObject[] = [];
+  #union: z.ZodDiscriminatedUnion<
+    string,
+    [z.AnyZodObject, ...z.AnyZodObject[]]
+  > | null = null;
+  #enum: z.ZodEnum<[string, ...string[]]> | null = null;
+
+  constructor(repo: Repo, selects: (name: string) => boolean) {
+    this.#repo = repo;
+    this.#selects = selects;
+  }
+
+  public get discriminator(): string {
+    return this.#repo.discriminator;
+  }
+
+  public get profile(): ProviderProfile | null {
+    return this.#repo.profile;
+  }
+
+  public get schemas(): z.AnyZodObject[] {
+    return this.#repo.schemas.filter((schema) =>
+      this.#selects(this.#_name(schema)),
+    );
+  }
+
+  public get union(): z.ZodDiscriminatedUnion<
+    string,
+    [z.AnyZodObject, ...z.AnyZodObject[]]
+  > {
+    const schemas = this.#_select();
+    return (this.#union ??= constructUnion(this.discriminator, schemas));
+  }
+
+  public get enum(): z.ZodEnum<[string, ...string[]]> {
+    const schemas = this.#_select();
+    return (this.#enum ??= constructEnum(
+      schemas.map((schema) => this.#_name(schema)),
+    ));
+  }
+
+  #_name(schema: z.AnyZodObject): string {
+    let name = this.#names.get(schema);
+    if (name === undefined) {
+      name = String(schema.shape[this.discriminator]._def.value);
+      this.#names.set(schema, name);
+    }
+    return name;
+  }
+
+  /**
+   * Selects the schemas and resets the derived schemas if the selection
+   * changed since the last access.
+   */
+  #_select(): z.AnyZodObject[] {
+    const schemas = this.schemas;
+    if (
+      schemas.length !== this.#selected.length ||
+      schemas.some((schema, index) => schema !== this.#selected[index])
+    ) {
+      this.#selected = schemas;
+      this.#union = null;
+      this.#enum = null;
+    }
+    return schemas;
+  }
+
+  public factory(name: string, version?: number): z.AnyZodObject | null {
+    return this.#selects(name) ? this.#repo.factory(name, version) : null;
+  }
+
+  public versions(name: string): number[] {
+    return this.#selects(name) ? this.#repo.versions(name) : [];
+  }
+
+  public currentVersion(name: string): number | null {
+    return this.#selects(name) ? this.#repo.currentVersion(name) : null;
+  }
+
+  public metadata(name: string, version?: number): SchemaMetadata | null {
+    return this.#selects(name) ? this.#repo.metadata(name, version) : null;
+  }
+
+  public toJSONSchema(target: JSONSchemaTarget = "union"): JSONSchema {
+    return exportJSONSchema(this, target);
+  }
+
+  public parseLLMOutput(text: string, options?: ParseOptions): ParseResult {
+    return parseLLMOutput(this, text, options);
+  }
+
+  public createStreamParser(options?: StreamParserOptions): StreamParser {
+    return new StreamParser(this, options);
+  }
+
+  public fake(options?: FakeOutputOptions): Record<string, unknown> {
+    return fakeOutput(this, options);
+  }
+
+  public list(options?: ListOptions): ListSchema {
+    return listSchema(this, options);
+  }
+}
+
+/**
+ * Keeps an llm repo on the current version of the original repo. A type whose
+ * current version is not offered to the LLM (`ignoreLLM`) is removed, as the
+ * outputs of an older version would not hydrate with the current one.
+ */
+function syncCurrent(
+  repo: ModifiableRepo,
+  name: string,
+  version: number,
+): void {
+  repo.setCurrent(name, version);
+  if (!repo.factory(name, version)) {
+    repo.remove(name);
+  }
+}
+
+function constructUnion(
+  discriminator: string,
+  schemas: z.AnyZodObject[],
+): z.ZodDiscriminatedUnion<string, [z.AnyZodObject, ...z.AnyZodObject[]]> {
+  if (schemas.length < 2) {
+    throw new Error("At least 2 schemas are required to construct a union");
+  }
+  return z.discriminatedUnion(
+    discriminator,
+    schemas as [z.AnyZodObject, ...z.AnyZodObject[]],
+  );
+}
+
+function constructEnum(names: string[]): z.ZodEnum<[string, ...string[]]> {
+  if (names.length < 2) {
+    throw new Error("At least 2 schemas are required to construct an enum");
+  }
+  return z.enum(names as [string, ...string[]]);
+}
+
+/**
+ * Implements `Repo.toJSONSchema` for every kind of repo.
+ */
+function exportJSONSchema(repo: Repo, target: JSONSchemaTarget): JSONSchema {
+  if (target === "union") {
+    return toJSONSchema(
+      repo.profile?.rootMustBeObject
+        ? z.object({ [ROOT_KEY]: repo.union }).strict()
+        : repo.union,
+    );
+  }
+  if (target === "enum") {
+    return toJSONSchema(repo.enum);
+  }
+
+  const schema = repo.factory(target.type);
+  if (!schema) {
+    throw new Error(`No schema registered for type '${target.type}'`);
+  }
+  return toJSONSchema(schema);
 }
 
 export class Registry {
@@ -87,11 +644,34 @@ export class Registry {
   private _original: ModifiableRepo;
 
   private _globalBlacklist: SchemaFilter[];
+  private _discriminator: DiscriminatorKeys;
+  private _nullableOptionals: boolean | undefined;
+  private _globalProviders: FieldProviders<any>;
+  private _localProviders: Record<string, FieldProviders<any>> = {};
+  private _profile: ProviderProfile;
+  private _onIncompatible: IncompatibleSchemaAction | undefined;
+
+  private _onConflict: ConflictPolicy | undefined;
+
+  /** Registrations of every version of every type */
+  private _registrations: Record<string, Record<number, Registration>> = {};
+  private _llmViews = new Map<ProviderProfile, ModifiableRepo>();
+  private _events = new Emitter<RegistryEvents>();
+  private _snapshot: RegistrySnapshot | null = null;
 
   constructor(options?: RegistryOptions) {
     this._globalBlacklist = options?.globalBlacklist ?? [];
-    this._llm = new SchemaRepo();
-    this._original = new SchemaRepo();
+    this._discriminator =
+      typeof options?.discriminator === "string"
+        ? { original: options.discriminator, llm: options.discriminator }
+        : (options?.discriminator ?? { original: "type", llm: "type" });
+    this._nullableOptionals = options?.nullableOptionals;
+    this._globalProviders = options?.providers ?? {};
+    this._profile = resolveProfile(options?.profile);
+    this._onIncompatible = options?.onIncompatible;
+    this._onConflict = options?.onConflict;
+    this._llm = new SchemaRepo(this._discriminator.llm, this._profile);
+    this._original = new SchemaRepo(this._discriminator.original);
   }
 
   public get llm(): Repo {
@@ -106,45 +686,700 @@ export class Registry {
     return this._globalBlacklist;
   }
 
+  public get profile(): ProviderProfile {
+    return this._profile;
+  }
+
   /**
-   * Registes a new schema. If an schema with the same type already exists
-   * the old value will be overriden with the new one.
-   *
+   * Gets the llm repo built for another provider profile. The repo is built
+   * on first access and rebuilt after the registry changed.
+   */
+  public llmFor(profile: ProviderProfile | ProviderName): Repo {
+    const resolved = resolveProfile(profile);
+    if (resolved === this._profile) {
+      return this._llm;
+    }
+
+    let repo = this._llmViews.get(resolved);
+    if (!repo) {
+      repo = new SchemaRepo(this._discriminator.llm, resolved);
+      for (const [name, versions] of Object.entries(this._registrations)) {
+        for (const [version, registration] of Object.entries(versions)) {
+          if (!registration.ignoreLLM) {
+            repo.add(
+              this.#_buildLLM(registration, resolved),
+              Number(version),
+              registration.metadata,
+            );
+          }
+        }
+        syncCurrent(repo, name, this._original.currentVersion(name)!);
+      }
+      this._llmViews.set(resolved, repo);
+    }
+    return repo;
+  }
+
+  /**
+   * Gets a frozen copy of both repos which is not affected by later changes.
+   * The same snapshot is returned until the registry changes.
+   */
+  public snapshot(): RegistrySnapshot {
+    return (this._snapshot ??= createSnapshot(
+      this._original.snapshot(),
+      this._llm.snapshot(),
+    ));
+  }
+
+  /**
+   * Derives a read-only view containing only the selected types. The view
+   * reads through to the registry, so it reflects later registrations.
+   */
+  public scope(selector: ScopeSelector): RegistryScope {
+    const selects = this.#_selects(selector);
+    return Object.freeze({
+      llm: new ScopedRepo(this._llm, selects),
+      original: new ScopedRepo(this._original, selects),
+    });
+  }
+
+  #_selects(selector: ScopeSelector): (name: string) => boolean {
+    if (Array.isArray(selector)) {
+      const names = new Set(selector);
+      return (name) => names.has(name);
+    }
+    if (typeof selector === "function") {
+      return (name) => {
+        const schema = this._original.factory(name);
+        return schema !== null && selector(name, schema);
+      };
+    }
+    return (name) =>
+      this._original
+        .metadata(name)
+        ?.tags?.some((tag) => selector.tags.includes(tag)) ?? false;
+  }
+
+  /**
+   * Registes a new schema. If a schema with the same type already exists the
+   * conflict policy decides which one is kept. Returns the schema shadowed by
+   * the registration: the replaced (or now previous) schema or, with
+   * `keep-first`, the discarded new one. Returns `null` without a conflict.
    */
   public register(
     schema: z.AnyZodObject,
     localBlacklist?: SchemaFilter[],
-    opts?: {
-      ignoreLLM?: boolean;
-    },
-  ): void {
-    // check if literal is present
+    opts?: RegisterOptions,
+  ): z.AnyZodObject | null {
+    const prepared = this.#_prepare(schema, localBlacklist, opts);
+    const existing = this._original.factory(prepared.name, opts?.version);
+    const policy = this._onConflict ?? "replace";
+
+    if (existing && policy === "error") {
+      throw new RegistrationError([
+        {
+          code: "already_registered",
+          index: null,
+          typeName: prepared.name,
+          message: `Type '${prepared.name}'${opts?.version === undefined ? "" : ` version ${opts.version}`} is already registered`,
+        },
+      ]);
+    }
+    if (existing && policy === "keep-first") {
+      return schema;
+    }
+
+    if (this._onIncompatible) {
+      this.#_enforceBudget(this.#_llmSchemasWith([prepared], policy));
+    }
+
+    this.#_emit(this.#_commit(prepared, policy));
+    return existing;
+  }
+
+  /**
+   * Registers all schemas or none of them. Every entry is validated first.
+   * Types already registered or occurring twice in the batch are rejected,
+   * unless another conflict policy is configured.
+   */
+  public registerMany(entries: RegistryEntry[]): RegisterManyResult {
+    const policy = this._onConflict ?? "error";
+    const issues: RegistrationIssue[] = [];
+    const prepared: PreparedRegistration[] = [];
+    const seen = new Map<string, number>();
+
+    entries.forEach((entry, index) => {
+      const { schema, localBlacklist, opts } =
+        entry instanceof z.ZodObject ? { schema: entry } : entry;
+
+      const typeName = this.#_typeName(schema);
+      if (typeName === null) {
+        issues.push({
+          code: "missing_discriminator",
+          index,
+          typeName,
+          message: `Schema is missing the ${this._discriminator.original}: zod.literal('...')`,
+        });
+        return;
+      }
+
+      // versions of a type do not conflict with each other
+      const key =
+        opts?.version === undefined ? typeName : `${typeName}@${opts.version}`;
+      const first = seen.get(key);
+      const registered =
+        opts?.version === undefined
+          ? typeName in this._registrations
+          : this._original.factory(typeName, opts.version) !== null;
+      if ((first !== undefined || registered) && policy === "keep-first") {
+        return;
+      }
+      if (first !== undefined && policy === "error") {
+        issues.push({
+          code: "duplicate_type",
+          index,
+          typeName,
+          message: `Type '${typeName}' is also registered by entry #${first}`,
+        });
+        return;
+      }
+      if (first === undefined) {
+        seen.set(key, index);
+      }
+      if (registered && policy === "error") {
+        issues.push({
+          code: "already_registered",
+          index,
+          typeName,
+          message: `Type '${typeName}' is already registered`,
+        });
+        return;
+      }
+
+      try {
+        prepared.push(this.#_prepare(schema, localBlacklist, opts));
+      } catch (error) {
+        issues.push({
+          code:
+            error instanceof IncompatibleSchemaError
+              ? "incompatible"
+              : "invalid_schema",
+          index,
+          typeName,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+
+    if (!issues.length && this._onIncompatible) {
+      try {
+        this.#_enforceBudget(this.#_llmSchemasWith(prepared, policy));
+      } catch (error) {
+        issues.push({
+          code: "incompatible",
+          index: null,
+          typeName: null,
+          message: (error as IncompatibleSchemaError).message,
+        });
+      }
+    }
+
+    if (issues.length) {
+      return { success: false, error: new RegistrationError(issues) };
+    }
+
+    // listeners see the registry with all entries registered
+    this._events.emitAll(
+      prepared.map((registration) => this.#_commit(registration, policy)),
+    );
+    return { success: true, names: prepared.map(({ name }) => name) };
+  }
+
+  /**
+   * Gets the value of the discriminator literal, `null` if it is missing.
+   */
+  #_typeName(schema: z.AnyZodObject): string | null {
+    const field = schema.shape[this._discriminator.original];
     if (
-      !schema.shape.type ||
-      !(schema.shape.type._def.typeName === "ZodLiteral") ||
-      !schema.shape.type._def.value
+      !field ||
+      !(field._def.typeName === "ZodLiteral") ||
+      !field._def.value
     ) {
+      return null;
+    }
+    return field._def.value;
+  }
+
+  /**
+   * Validates a schema and builds its llm schema without changing the
+   * registry.
+   */
+  #_prepare(
+    schema: z.AnyZodObject,
+    localBlacklist?: SchemaFilter[],
+    opts?: RegisterOptions,
+  ): PreparedRegistration {
+    // check if literal is present
+    const name = this.#_typeName(schema);
+    if (name === null) {
       throw Error(
-        "Precodition Failed: Schema is missing the type: zod.literal('...').",
+        `Precodition Failed: Schema is missing the ${this._discriminator.original}: zod.literal('...').`,
+      );
+    }
+
+    if (
+      opts?.version !== undefined &&
+      !(Number.isInteger(opts.version) && opts.version > 0)
+    ) {
+      throw new Error(
+        `Version ${opts.version} of '${name}' is not a positive integer`,
+      );
+    }
+
+    const registration: Registration = {
+      schema,
+      localBlacklist: localBlacklist ?? [],
+      ignoreLLM: opts?.ignoreLLM ?? false,
+      version: opts?.version,
+      current: opts?.current ?? false,
+      migrate: opts?.migrate,
+      metadata: opts?.metadata ?? {},
+    };
+
+    (registration.metadata.examples ?? []).forEach((example, index) => {
+      const result = schema.safeParse(example);
+      if (!result.success) {
+        throw new Error(
+          `Example ${index} of '${name}' does not match the schema: ${result.error.message}`,
+        );
+      }
+    });
+    const llmSchema = registration.ignoreLLM
+      ? null
+      : this.#_buildLLM(registration, this._profile);
+
+    return { name, registration, llmSchema, providers: opts?.providers ?? {} };
+  }
+
+  /**
+   * Commits a prepared registration to both repos. Registrations without a
+   * version replace all versions of the type, unless the `version` policy
+   * adds them as the next version. Returns the event describing the change.
+   */
+  #_commit(
+    { name, registration, llmSchema, providers }: PreparedRegistration,
+    policy: ConflictPolicy,
+  ): [keyof RegistryEvents, RegistryEvent] {
+    const version = this.#_versionOf(name, registration, policy);
+    const previousOriginal = this._original.factory(name);
+    const previousLLM = this._llm.factory(name);
+
+    this._original.add(registration.schema, version, registration.metadata);
+    this._registrations[name] =
+      version === undefined
+        ? { 1: registration }
+        : { ...this._registrations[name], [version]: registration };
+    this._localProviders[name] = providers;
+    this._llmViews.clear();
+    this._snapshot = null;
+
+    if (llmSchema) {
+      this._llm.add(llmSchema, version, registration.metadata);
+    } else if (version === undefined) {
+      this._llm.remove(name);
+    }
+
+    if (registration.current) {
+      this._original.setCurrent(name, version ?? 1);
+    }
+    syncCurrent(this._llm, name, this._original.currentVersion(name)!);
+
+    return [
+      previousOriginal ? "replace" : "register",
+      {
+        name,
+        original: this._original.factory(name),
+        llm: this._llm.factory(name),
+        previousOriginal,
+        previousLLM,
+      },
+    ];
+  }
+
+  /**
+   * Whether the version a registration is added as becomes the current one
+   * of its type, it does unless another version is marked as current.
+   */
+  #_becomesCurrent(
+    name: string,
+    version: number | undefined,
+    registration: Registration,
+  ): boolean {
+    const current = this._original.currentVersion(name);
+    if (version === undefined || registration.current || current === null) {
+      return true;
+    }
+    const pinned =
+      current !== Math.max(...this._original.versions(name)) ||
+      this._registrations[name]?.[current]?.current === true;
+    return !pinned && version >= current;
+  }
+
+  /**
+   * The version a registration is added as, `undefined` if it replaces all
+   * versions of the type.
+   */
+  #_versionOf(
+    name: string,
+    registration: Registration,
+    policy: ConflictPolicy,
+  ): number | undefined {
+    if (registration.version !== undefined) {
+      return registration.version;
+    }
+    const versions = this._original.versions(name);
+    return policy === "version" && versions.length
+      ? Math.max(...versions) + 1
+      : undefined;
+  }
+
+  /**
+   * The current schemas of the llm repo after committing the registrations.
+   */
+  #_llmSchemasWith(
+    prepared: PreparedRegistration[],
+    policy: ConflictPolicy,
+  ): z.AnyZodObject[] {
+    const schemas = new Map(
+      Object.keys(this._registrations).map((name) => [
+        name,
+        this._llm.factory(name),
+      ]),
+    );
+    for (const { name, registration, llmSchema } of prepared) {
+      const version = this.#_versionOf(name, registration, policy);
+      if (this.#_becomesCurrent(name, version, registration)) {
+        schemas.set(name, llmSchema);
+      }
+    }
+    return [...schemas.values()].filter((schema) => schema !== null);
+  }
+
+  /**
+   * Parses a payload with the original schema of its version and upgrades
+   * it step by step to the current version with the registered migrations.
+   */
+  public migrate(
+    payload: Record<string, unknown>,
+    version: number,
+  ): MigrationResult {
+    const name = String(payload[this._discriminator.original]);
+    const versions = this._registrations[name] ?? {};
+    const steps = Object.entries(versions).map(([version, registration]) => ({
+      version: Number(version),
+      schema: registration.schema,
+      migrate: registration.migrate,
+    }));
+
+    const current = this._original.currentVersion(name);
+    if (current === null) {
+      return {
+        success: false,
+        error: new MigrationError(
+          `No schema registered for type '${name}'`,
+          name,
+          null,
+        ),
+      };
+    }
+    return migrate(name, steps, payload, version, current);
+  }
+
+  /**
+   * Checks the schemas of the llm repo (or only the one with the given type)
+   * against the provider profile.
+   */
+  public checkCompatibility(name?: string): CompatibilityReport[] {
+    const schemas =
+      name === undefined ? this._llm.schemas : [this._llm.factory(name)];
+
+    return schemas
+      .filter((schema) => schema !== null)
+      .map((schema) =>
+        checkCompatibility(schema, this._profile, this._discriminator.llm),
       );
+  }
+
+  /**
+   * Checks the limits of the provider profile which apply to all schemas of
+   * the llm repo at once, e.g. the total number of properties.
+   */
+  public checkBudget(
+    profile?: ProviderProfile | ProviderName,
+  ): CompatibilityReport {
+    const resolved =
+      profile === undefined ? this._profile : resolveProfile(profile);
+    return checkBudget(this.llmFor(resolved).schemas, resolved);
+  }
+
+  /**
+   * Builds the llm schema of a registration for the provider profile.
+   */
+  #_buildLLM(
+    { schema, localBlacklist }: Registration,
+    profile: ProviderProfile,
+  ): z.AnyZodObject {
+    const blacklist = [...this._globalBlacklist, ...localBlacklist];
+    const options: LLMOptions = {
+      nullableOptionals:
+        this._nullableOptionals ?? profile.optionals === "nullable",
+      strictObjects: profile.noAdditionalProperties ?? false,
+      discriminator: this._discriminator,
+    };
+
+    const llmSchema = applyFilter(schema, blacklist, options);
+    if (!this._onIncompatible) {
+      return llmSchema;
     }
 
-    this._original.add(schema);
+    const report = checkCompatibility(
+      llmSchema,
+      profile,
+      this._discriminator.llm,
+    );
+    if (report.compatible) {
+      return llmSchema;
+    }
 
-    if (!(opts?.ignoreLLM ?? false)) {
-      this._llm.add(
-        applyFilter(schema, [
-          ...this._globalBlacklist,
-          ...(localBlacklist || []),
-        ]),
+    if (this._onIncompatible === "warn") {
+      console.warn(new IncompatibleSchemaError(report).message);
+      return llmSchema;
+    }
+
+    // drop the fields containing the offending types
+    const fieldPaths = report.issues.map((issue) => fieldPath(issue.path));
+    if (this._onIncompatible === "drop" && fieldPaths.every((p) => p.length)) {
+      const dropped = new Set(fieldPaths.map(formatPath));
+      const reduced = applyFilter(
+        schema,
+        [...blacklist, (_, __, { path }) => dropped.has(formatPath(path))],
+        options,
+      );
+      const recheck = checkCompatibility(
+        reduced,
+        profile,
+        this._discriminator.llm,
       );
+      if (recheck.compatible) {
+        return reduced;
+      }
     }
+
+    throw new IncompatibleSchemaError(report);
+  }
+
+  #_enforceBudget(llmSchemas: z.AnyZodObject[]): void {
+    const report = checkBudget(llmSchemas, this._profile);
+    if (report.compatible) {
+      return;
+    }
+
+    if (this._onIncompatible === "warn") {
+      console.warn(new IncompatibleSchemaError(report).message);
+      return;
+    }
+    throw new IncompatibleSchemaError(report);
+  }
+
+  /**
+   * Maps an object produced for the llm repo onto its original schema:
+   * `null` values of optional fields are removed and `null` values of fields
+   * with a default are replaced by the default.
+   */
+  public restoreOptionals(
+    output: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const name = String(output[this._discriminator.llm]);
+    const schema = this._original.factory(name);
+    if (!schema) {
+      throw new Error(`No schema registered for type '${name}'`);
+    }
+    return restoreOptionals(
+      schema,
+      this.#_renameDiscriminator(output),
+    ) as Record<string, unknown>;
+  }
+
+  /**
+   * Turns an object parsed with the llm repo into a valid instance of the
+   * original schema. Fields hidden from the LLM are filled by the global and
+   * local providers, which receive the `context`.
+   */
+  public hydrate<C = undefined>(
+    output: Record<string, unknown>,
+    context?: C,
+  ): HydrateResult {
+    const value = output[this._discriminator.llm];
+    const name = String(value);
+    const schema = this._original.factory(name);
+    if (!schema) {
+      return {
+        success: false,
+        error: new HydrationError(
+          `No schema registered for type '${name}'`,
+          typeof value === "string" ? value : null,
+        ),
+      };
+    }
+
+    return hydrate(
+      schema,
+      name,
+      this.#_renameDiscriminator(output),
+      { ...this._globalProviders, ...this._localProviders[name] },
+      context as C,
+    );
+  }
+
+  /**
+   * Renames the discriminator of an llm output to the key of the original
+   * repo.
+   */
+  #_renameDiscriminator(
+    output: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const { original, llm } = this._discriminator;
+    if (original === llm) {
+      return output;
+    }
+    const { [llm]: value, ...rest } = output;
+    return { ...rest, [original]: value };
+  }
+
+  /**
+   * Turns every schema of the llm repo, built for the provider of the
+   * format, into a tool definition.
+   */
+  public tools(format: "openai"): OpenAITool[];
+  public tools(format: "anthropic"): AnthropicTool[];
+  public tools(format: ToolFormat): (OpenAITool | AnthropicTool)[] {
+    return toTools(this.llmFor(format), format);
+  }
+
+  /**
+   * Parses the arguments of a tool call with the llm schema of the called
+   * type. Calls with an `input` object are Anthropic calls, calls with
+   * `arguments` OpenAI calls.
+   */
+  public dispatchToolCall(call: ToolCall): ToolCallResult {
+    return dispatchToolCall(
+      this.llmFor("input" in call ? "anthropic" : "openai"),
+      call,
+    );
+  }
+
+  /**
+   * Asks the model for an instance of the llm repo, reprompts with feedback
+   * until the answer is valid and hydrates it into an instance of the
+   * original schema.
+   */
+  public generate<C = undefined>(
+    client: ModelClient,
+    prompt: string,
+    options?: GenerateOptions<C>,
+  ): Promise<GenerateResult> {
+    return generate(
+      this._llm,
+      (output, context) => this.hydrate(output, context),
+      client,
+      prompt,
+      options,
+    );
+  }
+
+  /**
+   * Describes why the output is not a valid instance of a schema of the llm
+   * repo as instructions for the model to correct it, `null` if it is valid.
+   */
+  public feedback(output: unknown, options?: FeedbackOptions): string | null {
+    return formatFeedback(this._llm, output, options);
+  }
+
+  /**
+   * Parses an output of the llm repo with the schema of its type and calls
+   * the handler of the type. Outputs of unknown types are passed to the
+   * fallback, invalid outputs throw a `MatchError` synchronously, even if
+   * the handlers are async.
+   */
+  public match<R>(
+    output: Record<string, unknown>,
+    handlers: MatchHandlers<R>,
+    fallback?: MatchFallback<R>,
+  ): R {
+    return match(this._llm, output, handlers, fallback);
   }
 
   public unregister(name: string): z.AnyZodObject | null {
-    this._llm.remove(name);
-    return this._original.remove(name);
+    delete this._registrations[name];
+    delete this._localProviders[name];
+    this._llmViews.clear();
+    this._snapshot = null;
+    const llm = this._llm.remove(name);
+    const original = this._original.remove(name);
+
+    if (original) {
+      this.#_emit([
+        "unregister",
+        {
+          name,
+          original: null,
+          llm: null,
+          previousOriginal: original,
+          previousLLM: llm,
+        },
+      ]);
+    }
+    return original;
   }
+
+  /**
+   * Subscribes to changes of the registry, returns a function unsubscribing
+   * again. Listeners are called synchronously after the change, in the
+   * order of the changes.
+   */
+  public on<E extends keyof RegistryEvents>(
+    event: E,
+    listener: RegistryListener<E>,
+  ): () => void {
+    return this._events.on(event, listener);
+  }
+
+  #_emit([event, payload]: [keyof RegistryEvents, RegistryEvent]): void {
+    this._events.emit(event, payload);
+  }
+}
+
+/**
+ * Trim a path to the object field containing it, e.g. `tags[]` to `tags`.
+ */
+function fieldPath(path: string[]): string[] {
+  const trimmed = [...path];
+  while (trimmed.length && /^(\[\d*\]|\{\})$/.test(trimmed.at(-1)!)) {
+    trimmed.pop();
+  }
+  return trimmed;
+}
+
+/**
+ * How the llm schemas are built, derived from the options and the profile.
+ */
+interface LLMOptions {
+  /** Replace optionals and defaults by nullables */
+  readonly nullableOptionals?: boolean;
+  /** Forbid unknown keys on every object */
+  readonly strictObjects?: boolean;
+  /** Discriminator of the original schema and its key in the llm schema */
+  readonly discriminator?: DiscriminatorKeys;
 }
 
 /**
@@ -153,41 +1388,106 @@ export class Registry {
 function applyFilter(
   schema: z.AnyZodObject,
   blacklistedFields: SchemaFilter[],
+  {
+    nullableOptionals = false,
+    strictObjects = false,
+    discriminator = { original: "type", llm: "type" },
+  }: LLMOptions = {},
 ): z.AnyZodObject {
   // remove the type value to protect it
+  const { original: key, llm: llmKey } = discriminator;
+  const typeName = String(schema.shape[key]._def.value);
+  const typeField = schema.pick({}).extend({ [llmKey]: schema.shape[key] });
+  const withoutTypeField = schema.omit({ [key]: true });
 
-  const typeField = schema.pick({ type: true });
-  const withoutTypeField = schema.omit({ type: true });
+  const filtered = removeBlacklistedFields(
+    withoutTypeField,
+    blacklistedFields,
+    { path: [], typeName },
+  ) as z.AnyZodObject;
 
-  const filteredShape = Object.entries(
-    withoutTypeField.shape as Record<string, z.AnyZodObject>,
-  )
-    .filter(([key, zodObj]) => !blacklistedFields.some((f) => f(key, zodObj)))
-    .reduce(
-      (acc, [key, value]) => {
-        let processedValue = value as z.ZodTypeAny;
-
-        // Recursively remove defaults and optionals
-        processedValue = removeDefaultsAndOptionals(processedValue);
-
-        acc[key] = processedValue;
-        return acc;
-      },
-      {} as Record<string, z.ZodTypeAny>,
+  if (llmKey in filtered.shape) {
+    throw new Error(
+      `Field '${llmKey}' of '${typeName}' collides with the discriminator of the llm repo`,
     );
+  }
+
+  const filteredShape = Object.entries(
+    filtered.shape as Record<string, z.ZodTypeAny>,
+  ).reduce(
+    (acc, [key, value]) => {
+      // Recursively remove defaults and optionals
+      acc[key] = removeDefaultsAndOptionals(value, nullableOptionals);
+      if (strictObjects) {
+        acc[key] = forbidUnknownKeys(acc[key]);
+      }
+      return acc;
+    },
+    {} as Record<string, z.ZodTypeAny>,
+  );
 
   // reintrodzuce the type field
-  return z.object(filteredShape).merge(typeField);
+  let llmSchema = z.object(filteredShape).merge(typeField);
+  if (schema.description !== undefined) {
+    llmSchema = llmSchema.describe(schema.description);
+  }
+  return strictObjects ? llmSchema.strict() : llmSchema;
+}
+
+/**
+ * Make every object nested inside of the Zod type reject unknown keys, i.e.
+ * `additionalProperties: false`. Passthrough objects are kept as is.
+ */
+function forbidUnknownKeys(zodType: z.ZodTypeAny): z.ZodTypeAny {
+  let current = zodType;
+  if (current instanceof z.ZodObject && current._def.unknownKeys === "strip") {
+    current = new z.ZodObject({ ...current._def, unknownKeys: "strict" });
+  }
+  return mapChildren(current, forbidUnknownKeys);
+}
+
+/**
+ * Remove the fields matched by any of the filters from every object nested
+ * inside of the Zod type.
+ */
+function removeBlacklistedFields(
+  zodType: z.ZodTypeAny,
+  blacklistedFields: SchemaFilter[],
+  context: FilterContext,
+): z.ZodTypeAny {
+  let current = zodType;
+
+  if (current instanceof z.ZodObject) {
+    const shape = Object.fromEntries(
+      Object.entries(current.shape as Record<string, z.AnyZodObject>).filter(
+        ([key, value]) =>
+          !blacklistedFields.some((f) =>
+            f(key, value, { ...context, path: [...context.path, key] }),
+          ),
+      ),
+    );
+    current = new z.ZodObject({ ...current._def, shape: () => shape });
+  }
+
+  return mapChildren(current, (child, segment) =>
+    removeBlacklistedFields(child, blacklistedFields, {
+      ...context,
+      path: segment === undefined ? context.path : [...context.path, segment],
+    }),
+  );
 }
 
-// TODO expand to only include supported types
 // TODO remove function
-// TODO registerMany
 
 /**
- * Remove defaults and optionals from a Zod type
+ * Remove defaults and optionals from a Zod type and from every type nested
+ * inside of it. With `nullable` the removed wrappers are replaced by
+ * `.nullable()`.
  */
-function removeDefaultsAndOptionals(zodType: z.ZodTypeAny): z.ZodTypeAny {
+function removeDefaultsAndOptionals(
+  zodType: z.ZodTypeAny,
+  nullable = false,
+): z.ZodTypeAny {
   let current = zodType;
   let hasChanges = true;
 
@@ -197,16 +1497,181 @@ function removeDefaultsAndOptionals(zodType: z.ZodTypeAny): z.ZodTypeAny {
 
     // Remove defaults
     if (current instanceof z.ZodDefault) {
-      current = current.removeDefault();
+      current = withDescription(current.removeDefault(), current.description);
       hasChanges = true;
     }
 
     // Remove optionals
     if (current instanceof z.ZodOptional) {
-      current = current.unwrap();
+      current = withDescription(current.unwrap(), current.description);
       hasChanges = true;
     }
   }
 
-  return current;
+  const transformed = mapChildren(current, (child) =>
+    removeDefaultsAndOptionals(child, nullable),
+  );
+
+  if (nullable && current !== zodType && !transformed.isNullable()) {
+    return transformed.nullable();
+  }
+  return transformed;
+}
+
+/**
+ * Carry the description of a removed wrapper over to its inner type.
+ */
+function withDescription(
+  zodType: z.ZodTypeAny,
+  description: string | undefined,
+): z.ZodTypeAny {
+  if (description === undefined || zodType.description === description) {
+    return zodType;
+  }
+  return zodType.describe(description);
+}
+
+/**
+ * Rebuild a Zod type with every direct child replaced by `fn(child)`.
+ * Children that are addressable by a path receive their path segment (see
+ * `FilterContext`), wrapped types (optionals, effects, ...) receive none.
+ *
+ * The definition of the type is copied, so descriptions, checks (min, max,
+ * length, ...) and effects are preserved. Leaf types are returned as is.
+ */
+function mapChildren(
+  zodType: z.ZodTypeAny,
+  fn: (child: z.ZodTypeAny, segment?: string) => z.ZodTypeAny,
+): z.ZodTypeAny {
+  if (zodType instanceof z.ZodObject) {
+    const shape = Object.fromEntries(
+      Object.entries(zodType.shape as z.ZodRawShape).map(([key, value]) => [
+        key,
+        fn(value, key),
+      ]),
+    );
+    const catchall = zodType._def.catchall as z.ZodTypeAny;
+    return new z.ZodObject({
+      ...zodType._def,
+      shape: () => shape,
+      catchall: catchall instanceof z.ZodNever ? catchall : fn(catchall, "{}"),
+    });
+  }
+
+  if (zodType instanceof z.ZodArray) {
+    return new z.ZodArray({ ...zodType._def, type: fn(zodType.element, "[]") });
+  }
+
+  if (zodType instanceof z.ZodDiscriminatedUnion) {
+    const rebuilt = z.discriminatedUnion(
+      zodType.discriminator,
+      (zodType.options as z.ZodTypeAny[]).map((option) => fn(option)) as [
+        z.AnyZodObject,
+        ...z.AnyZodObject[],
+      ],
+    );
+    return new z.ZodDiscriminatedUnion({
+      ...zodType._def,
+      options: rebuilt.options,
+      optionsMap: rebuilt.optionsMap,
+    });
+  }
+
+  if (zodType instanceof z.ZodUnion) {
+    return new z.ZodUnion({
+      ...zodType._def,
+      options: (zodType.options as z.ZodTypeAny[]).map((option) =>
+        fn(option),
+      ) as [z.ZodTypeAny, ...z.ZodTypeAny[]],
+    });
+  }
+
+  if (zodType instanceof z.ZodRecord) {
+    return new z.ZodRecord({
+      ...zodType._def,
+      valueType: fn(zodType.valueSchema, "{}"),
+    });
+  }
+
+  if (zodType instanceof z.ZodMap) {
+    return new z.ZodMap({
+      ...zodType._def,
+      valueType: fn(zodType.valueSchema, "{}"),
+    });
+  }
+
+  if (zodType instanceof z.ZodSet) {
+    return new z.ZodSet({
+      ...zodType._def,
+      valueType: fn(zodType._def.valueType, "[]"),
+    });
+  }
+
+  if (zodType instanceof z.ZodTuple) {
+    const rest = zodType._def.rest as z.ZodTypeAny | null;
+    return new z.ZodTuple({
+      ...zodType._def,
+      items: (zodType.items as z.ZodTypeAny[]).map((item, index) =>
+        fn(item, `[${index}]`),
+      ) as [z.ZodTypeAny, ...z.ZodTypeAny[]],
+      rest: rest ? fn(rest, "[]") : null,
+    });
+  }
+
+  if (zodType instanceof z.ZodIntersection) {
+    return new z.ZodIntersection({
+      ...zodType._def,
+      left: fn(zodType._def.left),
+      right: fn(zodType._def.right),
+    });
+  }
+
+  if (zodType instanceof z.ZodEffects) {
+    return new z.ZodEffects({
+      ...zodType._def,
+      schema: fn(zodType.innerType()),
+    });
+  }
+
+  if (zodType instanceof z.ZodLazy) {
+    // evaluate the getter lazily (and only once) to support recursive schemas
+    const getter = zodType._def.getter;
+    let cached: z.ZodTypeAny | undefined;
+    return new z.ZodLazy(
+      withLazySource(
+        { ...zodType._def, getter: () => (cached ??= fn(getter())) },
+        zodType,
+      ),
+    );
+  }
+
+  if (
+    zodType instanceof z.ZodNullable ||
+    zodType instanceof z.ZodOptional ||
+    zodType instanceof z.ZodDefault ||
+    zodType instanceof z.ZodCatch ||
+    zodType instanceof z.ZodReadonly
+  ) {
+    return new (zodType.constructor as new (def: unknown) => z.ZodTypeAny)({
+      ...zodType._def,
+      innerType: fn(zodType._def.innerType),
+    });
+  }
+
+  if (zodType instanceof z.ZodBranded || zodType instanceof z.ZodPromise) {
+    return new (zodType.constructor as new (def: unknown) => z.ZodTypeAny)({
+      ...zodType._def,
+      type: fn(zodType._def.type),
+    });
+  }
+
+  if (zodType instanceof z.ZodPipeline) {
+    return new z.ZodPipeline({
+      ...zodType._def,
+      in: fn(zodType._def.in),
+      out: fn(zodType._def.out),
+    });
+  }
+
+  return zodType;
 }
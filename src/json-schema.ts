@@ -0,0 +1,366 @@
+import { z } from "zod";
+import { lazySource, stringFormat } from "./utils.js";
+
+export type JSONSchema = { [keyword: string]: unknown };
+
+/**
+ * What to export from a repo: the union of all schemas, the enum of all
+ * types or the schema of a single type.
+ */
+export type JSONSchemaTarget = "union" | "enum" | { type: string };
+
+const DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * Convert a Zod type into a draft 2020-12 JSON schema document.
+ *
+ * Objects forbid additional properties, structurally identical objects are
+ * moved to `$defs` and referenced, and keywords are always emitted in the
+ * same order, so the output is stable for prompt caching.
+ */
+export function toJSONSchema(zodType: z.ZodTypeAny): JSONSchema {
+  const context: ConvertContext = { stack: [], recursive: new Map() };
+  const root = convert(zodType, context);
+
+  const defs: Record<string, JSONSchema> = {};
+  for (const { name, schema } of context.recursive.values()) {
+    if (schema) {
+      defs[name] = schema;
+    }
+  }
+  const deduplicated = deduplicate(root, defs);
+
+  const names = Object.keys(defs).sort();
+  return {
+    $schema: DIALECT,
+    ...deduplicated,
+    ...(names.length
+      ? { $defs: Object.fromEntries(names.map((name) => [name, defs[name]])) }
+      : {}),
+  };
+}
+
+interface ConvertContext {
+  /** Lazy types currently being converted */
+  readonly stack: z.ZodTypeAny[];
+  /** Recursive lazy types and their definitions */
+  readonly recursive: Map<z.ZodTypeAny, { name: string; schema?: JSONSchema }>;
+}
+
+function convert(zodType: z.ZodTypeAny, context: ConvertContext): JSONSchema {
+  const schema = convertType(zodType, context);
+  if (zodType.description !== undefined && !("$ref" in schema)) {
+    return { description: zodType.description, ...schema };
+  }
+  return schema;
+}
+
+function convertType(
+  zodType: z.ZodTypeAny,
+  context: ConvertContext,
+): JSONSchema {
+  if (zodType instanceof z.ZodObject) {
+    const shape = zodType.shape as z.ZodRawShape;
+    const properties = Object.fromEntries(
+      Object.entries(shape).map(([key, value]) => [
+        key,
+        convert(value, context),
+      ]),
+    );
+    const required = Object.keys(shape).filter(
+      (key) => !shape[key]!.isOptional(),
+    );
+    const catchall = zodType._def.catchall as z.ZodTypeAny;
+    return {
+      type: "object",
+      properties,
+      required,
+      additionalProperties:
+        catchall instanceof z.ZodNever
+          ? zodType._def.unknownKeys === "passthrough"
+          : convert(catchall, context),
+    };
+  }
+
+  if (zodType instanceof z.ZodString) {
+    const schema: JSONSchema = { type: "string" };
+    for (const check of zodType._def.checks) {
+      if (check.kind === "min") schema.minLength = check.value;
+      if (check.kind === "max") schema.maxLength = check.value;
+      if (check.kind === "length") {
+        schema.minLength = check.value;
+        schema.maxLength = check.value;
+      }
+      if (check.kind === "regex") schema.pattern = check.regex.source;
+      const format = stringFormat(check);
+      if (format !== undefined) schema.format = format;
+    }
+    return schema;
+  }
+
+  if (zodType instanceof z.ZodNumber) {
+    const schema: JSONSchema = {
+      type: zodType.isInt ? "integer" : "number",
+    };
+    for (const check of zodType._def.checks) {
+      if (check.kind === "min") {
+        schema[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      }
+      if (check.kind === "max") {
+        schema[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      if (check.kind === "multipleOf") schema.multipleOf = check.value;
+    }
+    return schema;
+  }
+
+  if (zodType instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+
+  if (zodType instanceof z.ZodNull) {
+    return { type: "null" };
+  }
+
+  if (zodType instanceof z.ZodLiteral) {
+    const value = zodType.value;
+    return value === null
+      ? { type: "null" }
+      : {
+          type: typeof value === "number" ? "number" : typeof value,
+          const: value,
+        };
+  }
+
+  if (zodType instanceof z.ZodEnum) {
+    return { type: "string", enum: [...zodType.options] };
+  }
+
+  if (zodType instanceof z.ZodNativeEnum) {
+    const object = zodType.enum as Record<string, string | number>;
+    // numeric enums map their values back to their keys
+    const values = Object.keys(object)
+      .filter((key) => typeof object[object[key]!] !== "number")
+      .map((key) => object[key]!);
+    return { enum: values };
+  }
+
+  if (zodType instanceof z.ZodArray) {
+    const schema: JSONSchema = {
+      type: "array",
+      items: convert(zodType.element, context),
+    };
+    if (zodType._def.minLength) schema.minItems = zodType._def.minLength.value;
+    if (zodType._def.maxLength) schema.maxItems = zodType._def.maxLength.value;
+    if (zodType._def.exactLength) {
+      schema.minItems = zodType._def.exactLength.value;
+      schema.maxItems = zodType._def.exactLength.value;
+    }
+    return schema;
+  }
+
+  if (zodType instanceof z.ZodTuple) {
+    const items = zodType.items as z.ZodTypeAny[];
+    const rest = zodType._def.rest as z.ZodTypeAny | null;
+    return {
+      type: "array",
+      prefixItems: items.map((item) => convert(item, context)),
+      items: rest ? convert(rest, context) : false,
+      minItems: items.length,
+      ...(rest ? {} : { maxItems: items.length }),
+    };
+  }
+
+  if (zodType instanceof z.ZodSet) {
+    return {
+      type: "array",
+      items: convert(zodType._def.valueType, context),
+      uniqueItems: true,
+    };
+  }
+
+  if (zodType instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      additionalProperties: convert(zodType.valueSchema, context),
+    };
+  }
+
+  if (
+    zodType instanceof z.ZodUnion ||
+    zodType instanceof z.ZodDiscriminatedUnion
+  ) {
+    return {
+      anyOf: (zodType.options as z.ZodTypeAny[]).map((option) =>
+        convert(option, context),
+      ),
+    };
+  }
+
+  if (zodType instanceof z.ZodIntersection) {
+    return {
+      allOf: [
+        convert(zodType._def.left, context),
+        convert(zodType._def.right, context),
+      ],
+    };
+  }
+
+  if (zodType instanceof z.ZodNullable) {
+    return { anyOf: [convert(zodType.unwrap(), context), { type: "null" }] };
+  }
+
+  if (zodType instanceof z.ZodLazy) {
+    return convertLazy(zodType, context);
+  }
+
+  if (zodType instanceof z.ZodDate) {
+    return { type: "string", format: "date-time" };
+  }
+
+  if (zodType instanceof z.ZodBigInt) {
+    return { type: "integer" };
+  }
+
+  // defaults are left out: zod keeps every default as a factory, calling it
+  // would make the output differ between runs, e.g. for `() => new Date()`
+  if (
+    zodType instanceof z.ZodOptional ||
+    zodType instanceof z.ZodDefault ||
+    zodType instanceof z.ZodCatch ||
+    zodType instanceof z.ZodReadonly
+  ) {
+    return convert(zodType._def.innerType, context);
+  }
+
+  if (zodType instanceof z.ZodEffects) {
+    return convert(zodType.innerType(), context);
+  }
+
+  if (zodType instanceof z.ZodBranded) {
+    return convert(zodType.unwrap(), context);
+  }
+
+  if (zodType instanceof z.ZodPipeline) {
+    return convert(zodType._def.in, context);
+  }
+
+  if (zodType instanceof z.ZodNever) {
+    return { not: {} };
+  }
+
+  // any, unknown and types without a JSON representation
+  return {};
+}
+
+/**
+ * Convert a lazy type, recursive references point to a definition in `$defs`.
+ */
+function convertLazy(
+  zodType: z.ZodLazy<z.ZodTypeAny>,
+  context: ConvertContext,
+): JSONSchema {
+  const source = lazySource(zodType);
+
+  if (context.stack.includes(source)) {
+    let entry = context.recursive.get(source);
+    if (!entry) {
+      entry = { name: `Recursive${context.recursive.size + 1}` };
+      context.recursive.set(source, entry);
+    }
+    return { $ref: `#/$defs/${entry.name}` };
+  }
+
+  context.stack.push(source);
+  const schema = convert(zodType.schema, context);
+  context.stack.pop();
+
+  const entry = context.recursive.get(source);
+  if (entry) {
+    entry.schema = schema;
+    return { $ref: `#/$defs/${entry.name}` };
+  }
+  return schema;
+}
+
+/**
+ * Move objects occurring more than once to `defs` and replace them by a
+ * reference. The root itself is never moved.
+ */
+function deduplicate(
+  root: JSONSchema,
+  defs: Record<string, JSONSchema>,
+): JSONSchema {
+  const counts = new Map<string, number>();
+  walk(root, (node) => {
+    if (node !== root && node.type === "object") {
+      const key = JSON.stringify(node);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  });
+
+  const names = new Map<string, string>();
+  const replace = (node: unknown, hint: string): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item) => replace(item, hint));
+    }
+    if (typeof node !== "object" || node === null) {
+      return node;
+    }
+
+    const key = JSON.stringify(node);
+    const replaced = Object.fromEntries(
+      Object.entries(node).map(([keyword, value]) => [
+        keyword,
+        keyword === "properties"
+          ? Object.fromEntries(
+              Object.entries(value as JSONSchema).map(([name, property]) => [
+                name,
+                replace(property, name),
+              ]),
+            )
+          : replace(value, hint),
+      ]),
+    );
+
+    if (node === root || (counts.get(key) ?? 0) < 2) {
+      return replaced;
+    }
+
+    let name = names.get(key);
+    if (name === undefined) {
+      name = uniqueName(pascalCase(hint), defs);
+      names.set(key, name);
+      defs[name] = replaced;
+    }
+    return { $ref: `#/$defs/${name}` };
+  };
+
+  return replace(root, "Object") as JSONSchema;
+}
+
+function walk(node: unknown, visit: (node: JSONSchema) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach((item) => walk(item, visit));
+  } else if (typeof node === "object" && node !== null) {
+    visit(node as JSONSchema);
+    Object.values(node).forEach((value) => walk(value, visit));
+  }
+}
+
+function pascalCase(value: string): string {
+  const words = value.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const name = words.map((w) => w[0]!.toUpperCase() + w.slice(1)).join("");
+  return name || "Object";
+}
+
+function uniqueName(name: string, taken: Record<string, unknown>): string {
+  if (!(name in taken)) {
+    return name;
+  }
+  let index = 2;
+  while (`${name}${index}` in taken) {
+    index++;
+  }
+  return `${name}${index}`;
+}
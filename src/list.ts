@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { describedRefinement } from "./compatibility.js";
+import type { Repo } from "./internals.js";
+
+/** Limits of the number of items of a type in a list */
+export interface CountLimits {
+  readonly min?: number;
+  readonly max?: number;
+}
+
+export interface ListOptions<K extends string = string> {
+  /** The property of the root object holding the items, defaults to `items` */
+  readonly key?: K;
+  /** Minimum number of items */
+  readonly min?: number;
+  /** Maximum number of items */
+  readonly max?: number;
+  /** Limits of the number of items by type */
+  readonly perType?: { readonly [type: string]: CountLimits };
+  /** Allow at most one item of every type */
+  readonly uniqueTypes?: boolean;
+}
+
+/**
+ * An object holding the list of items under the key. The array is refined
+ * with the limits by type.
+ */
+export type ListSchema<
+  E extends z.ZodTypeAny = z.ZodTypeAny,
+  K extends string = string,
+> = z.ZodObject<{ [P in K]: z.ZodEffects<z.ZodArray<E>> }>;
+
+/**
+ * Build a schema for a list of instances of the repo. The list is wrapped in
+ * an object, as structured outputs require an object at the root, which is
+ * strict if the profile of the repo forbids additional properties. Limits
+ * which JSON schema can not express are described on the array for the model
+ * and enforced when parsing, `checkCompatibility` does not report them.
+ */
+export function listSchema(repo: Repo, options: ListOptions = {}): ListSchema {
+  const { key = "items", uniqueTypes = false } = options;
+  const names = repo.schemas.map((schema) =>
+    String(schema.shape[repo.discriminator]._def.value),
+  );
+  const element = repo.schemas.length === 1 ? repo.schemas[0] : repo.union;
+  if (!element) {
+    throw new Error("At least 1 schema is required to construct a list");
+  }
+
+  const limits: Record<string, CountLimits> = {};
+  for (const [name, limit] of Object.entries(options.perType ?? {})) {
+    if (!names.includes(name)) {
+      throw new Error(`No schema registered for type '${name}'`);
+    }
+    limits[name] = limit;
+  }
+  if (uniqueTypes) {
+    for (const name of names) {
+      limits[name] = {
+        ...limits[name],
+        max: Math.min(limits[name]?.max ?? 1, 1),
+      };
+    }
+  }
+  for (const [name, { min, max }] of Object.entries(limits)) {
+    assertRange(min, max, `of type '${name}'`);
+  }
+
+  const min = Math.max(
+    options.min ?? 0,
+    Object.values(limits).reduce((sum, limit) => sum + (limit.min ?? 0), 0),
+  );
+  const max = uniqueTypes
+    ? Math.min(options.max ?? Infinity, names.length)
+    : options.max;
+  assertRange(min, max, "in the list");
+
+  let array = z.array(element);
+  if (min > 0) {
+    array = array.min(min);
+  }
+  if (max !== undefined && max !== Infinity) {
+    array = array.max(max);
+  }
+  const description = describeLimits(limits);
+  if (description) {
+    array = array.describe(description);
+  }
+
+  const refined = array.superRefine((items, ctx) => {
+    const counts: Record<string, number> = {};
+    for (const [index, item] of items.entries()) {
+      const name = String(item[repo.discriminator]);
+      counts[name] = (counts[name] ?? 0) + 1;
+      const max = limits[name]?.max;
+      if (max !== undefined && counts[name] > max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index],
+          message: `At most ${plural(max)} of type '${name}' allowed`,
+        });
+      }
+    }
+    for (const [name, { min }] of Object.entries(limits)) {
+      if (min !== undefined && (counts[name] ?? 0) < min) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `At least ${plural(min)} of type '${name}' required`,
+        });
+      }
+    }
+  });
+  const list = z.object({ [key]: describedRefinement(refined) });
+  return (
+    repo.profile?.noAdditionalProperties ? list.strict() : list
+  ) as ListSchema;
+}
+
+function assertRange(
+  min: number | undefined,
+  max: number | undefined,
+  subject: string,
+): void {
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error(
+      `At least ${plural(min)} and at most ${plural(max)} ${subject} can not be satisfied`,
+    );
+  }
+}
+
+function plural(count: number): string {
+  return `${count} item${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Describe the limits by type for the model, e.g.
+ * `At most 1 item of type 'pie_chart'.`
+ */
+function describeLimits(limits: Record<string, CountLimits>): string {
+  return Object.entries(limits)
+    .flatMap(([name, { min, max }]) => {
+      if (min !== undefined && min === max) {
+        return [`Exactly ${plural(min)} of type '${name}'.`];
+      }
+      return [
+        ...(min === undefined
+          ? []
+          : [`At least ${plural(min)} of type '${name}'.`]),
+        ...(max === undefined
+          ? []
+          : [`At most ${plural(max)} of type '${name}'.`]),
+      ];
+    })
+    .join(" ");
+}
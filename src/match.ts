@@ -0,0 +1,71 @@
+import type { z } from "zod";
+import type { Repo } from "./internals.js";
+
+/**
+ * Handlers of `match` by type, receiving the payload parsed with the schema
+ * of the type. Handlers may be async, `match` returns their result as is.
+ */
+export type MatchHandlers<R> = Record<
+  string,
+  (payload: Record<string, unknown>) => R
+>;
+
+/**
+ * Handles the output of a type not registered in the repo.
+ */
+export type MatchFallback<R> = (output: Record<string, unknown>) => R;
+
+/**
+ * Thrown by `match` if the output can not be dispatched to a handler.
+ */
+export class MatchError extends Error {
+  constructor(
+    message: string,
+    /** The type of the output */
+    public readonly typeName: string,
+    /** The validation issues against the schema of the type */
+    public readonly issues: z.ZodIssue[] = [],
+  ) {
+    super(message);
+    this.name = "MatchError";
+  }
+}
+
+/**
+ * Parse the output with the schema of its type and call the handler of the
+ * type with the result. Outputs of unknown types are passed to the fallback.
+ *
+ * A `MatchError` is thrown synchronously before any handler is called, also
+ * for async handlers, while the failures of an async handler reject the
+ * promise it returns. Call `match` inside of `try` with `await` to catch both.
+ */
+export function match<R>(
+  repo: Repo,
+  output: Record<string, unknown>,
+  handlers: MatchHandlers<R>,
+  fallback?: MatchFallback<R>,
+): R {
+  const name = String(output[repo.discriminator]);
+  const schema = repo.factory(name);
+  if (!schema) {
+    if (fallback) {
+      return fallback(output);
+    }
+    throw new MatchError(`No schema registered for type '${name}'`, name);
+  }
+
+  const handler = Object.hasOwn(handlers, name) ? handlers[name] : undefined;
+  if (!handler) {
+    throw new MatchError(`No handler for type '${name}'`, name);
+  }
+
+  const result = schema.safeParse(output);
+  if (!result.success) {
+    throw new MatchError(
+      `Invalid output for type '${name}': ${result.error.message}`,
+      name,
+      result.error.issues,
+    );
+  }
+  return handler(result.data);
+}
@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+/**
+ * Upgrades a payload of the previous version of a schema to the version the
+ * migration is registered with. The payload has been validated against the
+ * previous version, parse it with that schema to access it typed.
+ */
+export type Migration = (previous: unknown) => unknown;
+
+/**
+ * A registered version of a schema and the migration leading to it.
+ */
+export interface MigrationStep {
+  readonly version: number;
+  readonly schema: z.AnyZodObject;
+  readonly migrate?: Migration | undefined;
+}
+
+export type MigrationResult =
+  | { success: true; version: number; data: Record<string, unknown> }
+  | { success: false; error: MigrationError };
+
+/**
+ * Returned by `migrate` if a payload can not be upgraded.
+ */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    /** The type of the payload */
+    public readonly typeName: string,
+    /** The version the payload could not be parsed with or migrated to */
+    public readonly version: number | null,
+    /** The validation issues against the schema of the version */
+    public readonly issues: z.ZodIssue[] = [],
+  ) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Parse a payload with the schema of its version and upgrade it step by step
+ * to the target version. Every intermediate result is validated against the
+ * schema of its version.
+ */
+export function migrate(
+  typeName: string,
+  steps: MigrationStep[],
+  payload: Record<string, unknown>,
+  from: number,
+  to: number,
+): MigrationResult {
+  const start = steps.findIndex(({ version }) => version === from);
+  const end = steps.findIndex(({ version }) => version === to);
+  if (start === -1 || end === -1) {
+    const missing = start === -1 ? from : to;
+    return {
+      success: false,
+      error: new MigrationError(
+        `No version ${missing} registered for type '${typeName}'`,
+        typeName,
+        missing,
+      ),
+    };
+  }
+  if (start > end) {
+    return {
+      success: false,
+      error: new MigrationError(
+        `Can not migrate '${typeName}' down from version ${from} to ${to}`,
+        typeName,
+        to,
+      ),
+    };
+  }
+
+  let data: unknown = payload;
+  for (let index = start; index <= end; index++) {
+    const { version, schema, migrate } = steps[index]!;
+
+    if (index > start) {
+      const previous = steps[index - 1]!.version;
+      if (!migrate) {
+        return {
+          success: false,
+          error: new MigrationError(
+            `No migration registered from version ${previous} to ${version} of '${typeName}'`,
+            typeName,
+            version,
+          ),
+        };
+      }
+      try {
+        data = migrate(data);
+      } catch (error) {
+        return {
+          success: false,
+          error: new MigrationError(
+            `Migration to version ${version} of '${typeName}' failed: ${error instanceof Error ? error.message : String(error)}`,
+            typeName,
+            version,
+          ),
+        };
+      }
+    }
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      return {
+        success: false,
+        error: new MigrationError(
+          `Payload is not a valid version ${version} of '${typeName}': ${result.error.message}`,
+          typeName,
+          version,
+          result.error.issues,
+        ),
+      };
+    }
+    data = result.data;
+  }
+
+  return { success: true, version: to, data: data as Record<string, unknown> };
+}
@@ -0,0 +1,372 @@
+import { z } from "zod";
+import type { Repo } from "./internals.js";
+import { ROOT_KEY } from "./profiles.js";
+import { isRecord, unwrap } from "./utils.js";
+
+/**
+ * Repairs `parseLLMOutput` can apply to the raw text of a model:
+ * - `extract_json`: take the JSON out of a code fence or surrounding prose
+ * - `trailing_commas`: remove commas before closing brackets
+ * - `coerce`: convert primitives to the type the schema expects, e.g. `"42"`
+ *   to `42` for a number or `"Yes"` to `"yes"` for an enum
+ * - `discriminator`: map a wrong cased or misspelled type onto the closest
+ *   registered type
+ */
+export type RepairKind =
+  | "extract_json"
+  | "trailing_commas"
+  | "coerce"
+  | "discriminator";
+
+/**
+ * A repair applied to the output. The path points into the data, it is empty
+ * for repairs of the text.
+ */
+export interface Repair {
+  readonly kind: RepairKind;
+  readonly path: (string | number)[];
+  readonly message: string;
+}
+
+export interface ParseOptions {
+  /** The repairs to apply, all by default */
+  readonly repairs?: { readonly [K in RepairKind]?: boolean };
+}
+
+export type ParseResult<T = Record<string, unknown>> =
+  | { success: true; data: T; repairs: Repair[] }
+  | {
+      success: false;
+      error: OutputParseError;
+      repairs: Repair[];
+      /** The JSON value after the repairs, `undefined` if there is none */
+      output: unknown;
+    };
+
+/**
+ * Returned by `parseLLMOutput` and `StreamParser` if the text can not be
+ * turned into a valid instance of a registered schema.
+ */
+export class OutputParseError extends Error {
+  constructor(
+    message: string,
+    /** The type of the output, `null` if it was not found */
+    public readonly typeName: string | null,
+    /** The validation issues against the schema of the type */
+    public readonly issues: z.ZodIssue[] = [],
+  ) {
+    super(message);
+    this.name = "OutputParseError";
+  }
+}
+
+/**
+ * Parse the raw text of a model with the schema of its type, applying the
+ * enabled repairs on the way.
+ */
+export function parseLLMOutput(
+  repo: Repo,
+  text: string,
+  options: ParseOptions = {},
+): ParseResult {
+  const enabled = (kind: RepairKind) => options.repairs?.[kind] ?? true;
+  const repairs: Repair[] = [];
+  const fail = (
+    message: string,
+    output?: unknown,
+    typeName: string | null = null,
+  ) => ({
+    success: false as const,
+    error: new OutputParseError(message, typeName),
+    repairs,
+    output,
+  });
+
+  const json = parseJSON(text, enabled, repairs);
+  if (!json.success) {
+    return fail(`Output is not valid JSON: ${json.message}`);
+  }
+  const value = unwrapRoot(repo, json.value);
+  if (!isRecord(value)) {
+    return fail("Output is not a JSON object", value);
+  }
+
+  let output = value;
+  const key = repo.discriminator;
+  let name = String(output[key]);
+  let schema = repo.factory(name);
+  if (!schema && enabled("discriminator") && typeof output[key] === "string") {
+    const names = repo.schemas.map((schema) =>
+      String(schema.shape[key]._def.value),
+    );
+    const closest = closestName(name, names);
+    if (closest !== null) {
+      repairs.push({
+        kind: "discriminator",
+        path: [key],
+        message: `Replaced type '${name}' with '${closest}'`,
+      });
+      output = { ...output, [key]: closest };
+      name = closest;
+      schema = repo.factory(name);
+    }
+  }
+  if (!schema) {
+    return fail(`No schema registered for type '${name}'`, output, name);
+  }
+
+  if (enabled("coerce")) {
+    output = coerce(schema, output, [], repairs) as Record<string, unknown>;
+  }
+
+  const result = schema.safeParse(output);
+  if (!result.success) {
+    return {
+      success: false,
+      error: new OutputParseError(
+        `Invalid output for type '${name}': ${result.error.message}`,
+        name,
+        result.error.issues,
+      ),
+      repairs,
+      output,
+    };
+  }
+  return { success: true, data: result.data, repairs };
+}
+
+/**
+ * The output inside the root object of a repo whose profile requires an
+ * object at the root, see `ROOT_KEY`. Other outputs are returned as is.
+ */
+export function unwrapRoot(repo: Repo, output: unknown): unknown {
+  return repo.profile?.rootMustBeObject &&
+    isRecord(output) &&
+    !(repo.discriminator in output) &&
+    ROOT_KEY in output
+    ? output[ROOT_KEY]
+    : output;
+}
+
+/**
+ * Parse the text as JSON, extracting it and removing trailing commas if
+ * enabled and necessary.
+ */
+function parseJSON(
+  text: string,
+  enabled: (kind: RepairKind) => boolean,
+  repairs: Repair[],
+): { success: true; value: unknown } | { success: false; message: string } {
+  let current = text.trim();
+  let error = tryParse(current);
+  if (!("message" in error)) {
+    return { success: true, value: error.value };
+  }
+
+  if (enabled("extract_json")) {
+    const extracted = extractJSON(current);
+    if (extracted !== null && extracted !== current) {
+      repairs.push({
+        kind: "extract_json",
+        path: [],
+        message: "Extracted the JSON from the surrounding text",
+      });
+      current = extracted;
+      error = tryParse(current);
+    }
+  }
+
+  if ("message" in error && enabled("trailing_commas")) {
+    const withoutCommas = removeTrailingCommas(current);
+    if (withoutCommas !== current) {
+      repairs.push({
+        kind: "trailing_commas",
+        path: [],
+        message: "Removed trailing commas",
+      });
+      error = tryParse(withoutCommas);
+    }
+  }
+
+  return "message" in error
+    ? { success: false, message: error.message }
+    : { success: true, value: error.value };
+}
+
+function tryParse(text: string): { value: unknown } | { message: string } {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * The content of the first code fence or else the text from the first
+ * opening to the last closing bracket, `null` if there is neither.
+ */
+function extractJSON(text: string): string | null {
+  const fence = /```[\w-]*[^\S\n]*\n([\s\S]*?)```/.exec(text);
+  if (fence) {
+    return fence[1]!.trim();
+  }
+
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  return start === -1 || end < start ? null : text.slice(start, end + 1);
+}
+
+/**
+ * Remove the commas followed by a closing bracket, outside of strings.
+ */
+function removeTrailingCommas(text: string): string {
+  const closing = /\s*[}\]]/y;
+  let result = "";
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (inString) {
+      if (char === "\\") {
+        result += char + (text[++i] ?? "");
+        continue;
+      }
+      inString = char !== '"';
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ",") {
+      closing.lastIndex = i + 1;
+      if (closing.test(text)) {
+        continue;
+      }
+    }
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * The registered name equal to the given one apart from case and separators
+ * (`Line Chart`, `lineChart`, `LINE-CHART`), or else the only name within an
+ * edit distance of one per five characters. `null` if there is none.
+ */
+export function closestName(name: string, names: string[]): string | null {
+  const normalized = normalize(name);
+  const equal = names.filter((other) => normalize(other) === normalized);
+  if (equal.length) {
+    return equal.length === 1 ? equal[0]! : null;
+  }
+
+  const maxDistance = Math.max(1, Math.floor(normalized.length / 5));
+  const close = names.filter(
+    (other) => editDistance(normalize(other), normalized) <= maxDistance,
+  );
+  return close.length === 1 ? close[0]! : null;
+}
+
+function normalize(name: string): string {
+  return name.replace(/[^a-z0-9]/gi, "").toLowerCase();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Convert the primitives of the value to the types the schema expects where
+ * the conversion is unambiguous. Unions other than nullables are left as is.
+ */
+function coerce(
+  schema: z.ZodTypeAny,
+  value: unknown,
+  path: (string | number)[],
+  repairs: Repair[],
+): unknown {
+  const target = unwrap(schema);
+  const repaired = (to: unknown) => {
+    repairs.push({
+      kind: "coerce",
+      path,
+      message: `Converted ${JSON.stringify(value)} to ${JSON.stringify(to)}`,
+    });
+    return to;
+  };
+
+  if (target instanceof z.ZodObject && isRecord(value)) {
+    const shape = target.shape as z.ZodRawShape;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        shape[key] ? coerce(shape[key], item, [...path, key], repairs) : item,
+      ]),
+    );
+  }
+  if (target instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((item, index) =>
+      coerce(target.element, item, [...path, index], repairs),
+    );
+  }
+  if (target instanceof z.ZodTuple && Array.isArray(value)) {
+    const items = target.items as z.ZodTypeAny[];
+    const rest = target._def.rest as z.ZodTypeAny | null;
+    return value.map((item, index) => {
+      const itemSchema = items[index] ?? rest;
+      return itemSchema
+        ? coerce(itemSchema, item, [...path, index], repairs)
+        : item;
+    });
+  }
+  if (target instanceof z.ZodRecord && isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        coerce(target._def.valueType, item, [...path, key], repairs),
+      ]),
+    );
+  }
+
+  if (target instanceof z.ZodNumber && typeof value === "string") {
+    const number = value.trim();
+    return /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(number)
+      ? repaired(Number(number))
+      : value;
+  }
+  if (target instanceof z.ZodBoolean && typeof value === "string") {
+    const boolean = value.trim().toLowerCase();
+    return boolean === "true" || boolean === "false"
+      ? repaired(boolean === "true")
+      : value;
+  }
+  if (
+    target instanceof z.ZodString &&
+    (typeof value === "number" || typeof value === "boolean")
+  ) {
+    return repaired(String(value));
+  }
+  if (target instanceof z.ZodEnum && typeof value === "string") {
+    const options = (target.options as string[]).filter(
+      (option) => option.toLowerCase() === value.trim().toLowerCase(),
+    );
+    return options.length === 1 && options[0] !== value
+      ? repaired(options[0])
+      : value;
+  }
+  if (target instanceof z.ZodLiteral && typeof value === "string") {
+    const literal: unknown = target.value;
+    return typeof literal !== "string" && String(literal) === value.trim()
+      ? repaired(literal)
+      : value;
+  }
+  return value;
+}
@@ -0,0 +1,161 @@
+import { z } from "zod";
+
+/**
+ * Describes the JSON schema subset and the limits of a structured output
+ * provider. The profile drives how the llm repo is built and checked.
+ */
+export interface ProviderProfile {
+  readonly name: string;
+  /** Zod types which can not be expressed in the provider's JSON schema */
+  readonly unsupportedTypes: readonly z.ZodFirstPartyTypeKind[];
+  /** Whether transforms and preprocessors are allowed */
+  readonly allowTransforms: boolean;
+  /** Whether refinements, which the provider can not enforce, are allowed */
+  readonly allowRefinements: boolean;
+  /** Whether recursive (`z.lazy`) schemas are allowed */
+  readonly allowRecursion: boolean;
+  /**
+   * How optionals and defaults are exposed to the LLM: as required fields
+   * or as required but nullable fields.
+   */
+  readonly optionals?: "required" | "nullable";
+  /**
+   * Every object must forbid additional properties: objects of the llm repo
+   * are made strict, records and passthrough objects are not supported.
+   */
+  readonly noAdditionalProperties?: boolean;
+  /**
+   * The root of the schema sent to the provider must be an object: the union
+   * is exported wrapped in an object, see `ROOT_KEY`.
+   */
+  readonly rootMustBeObject?: boolean;
+  /** Maximum nesting depth of objects, the root object has depth 1 */
+  readonly maxDepth?: number;
+  /** Maximum number of object properties over all schemas */
+  readonly maxProperties?: number;
+  /** Maximum number of enum values over all schemas */
+  readonly maxEnumValues?: number;
+  /** Supported JSON schema string formats, all formats if unset */
+  readonly stringFormats?: readonly string[];
+}
+
+/**
+ * The property of the object wrapping the union of a repo whose profile
+ * requires an object at the root.
+ */
+export const ROOT_KEY = "output";
+
+/**
+ * The constructs supported by JSON schema based structured outputs.
+ */
+export const structuredOutputsProfile: ProviderProfile = {
+  name: "structured-outputs",
+  unsupportedTypes: [
+    z.ZodFirstPartyTypeKind.ZodDate,
+    z.ZodFirstPartyTypeKind.ZodBigInt,
+    z.ZodFirstPartyTypeKind.ZodSymbol,
+    z.ZodFirstPartyTypeKind.ZodUndefined,
+    z.ZodFirstPartyTypeKind.ZodVoid,
+    z.ZodFirstPartyTypeKind.ZodNever,
+    z.ZodFirstPartyTypeKind.ZodAny,
+    z.ZodFirstPartyTypeKind.ZodUnknown,
+    z.ZodFirstPartyTypeKind.ZodNaN,
+    z.ZodFirstPartyTypeKind.ZodIntersection,
+    z.ZodFirstPartyTypeKind.ZodFunction,
+    z.ZodFirstPartyTypeKind.ZodMap,
+    z.ZodFirstPartyTypeKind.ZodSet,
+    z.ZodFirstPartyTypeKind.ZodPromise,
+  ],
+  allowTransforms: false,
+  allowRefinements: false,
+  allowRecursion: false,
+};
+
+/**
+ * OpenAI structured outputs in strict mode.
+ */
+export const openaiProfile: ProviderProfile = {
+  ...structuredOutputsProfile,
+  name: "openai",
+  optionals: "nullable",
+  noAdditionalProperties: true,
+  rootMustBeObject: true,
+  maxDepth: 10,
+  maxProperties: 5000,
+  maxEnumValues: 1000,
+  stringFormats: [
+    "date-time",
+    "time",
+    "date",
+    "duration",
+    "email",
+    "hostname",
+    "ipv4",
+    "ipv6",
+    "uuid",
+  ],
+};
+
+/**
+ * Anthropic structured outputs and tool input schemas.
+ */
+export const anthropicProfile: ProviderProfile = {
+  ...structuredOutputsProfile,
+  name: "anthropic",
+  optionals: "required",
+  noAdditionalProperties: true,
+  rootMustBeObject: true,
+  stringFormats: [
+    "date-time",
+    "time",
+    "date",
+    "duration",
+    "email",
+    "hostname",
+    "uri",
+    "ipv4",
+    "ipv6",
+    "uuid",
+  ],
+};
+
+/**
+ * Gemini response schemas (OpenAPI subset).
+ */
+export const geminiProfile: ProviderProfile = {
+  ...structuredOutputsProfile,
+  name: "gemini",
+  optionals: "nullable",
+  noAdditionalProperties: false,
+  rootMustBeObject: false,
+  maxDepth: 5,
+  maxEnumValues: 500,
+  stringFormats: ["date-time", "date", "time"],
+};
+
+export const providerProfiles = {
+  openai: openaiProfile,
+  anthropic: anthropicProfile,
+  gemini: geminiProfile,
+} as const satisfies Record<string, ProviderProfile>;
+
+export type ProviderName = keyof typeof providerProfiles;
+
+/**
+ * Resolve a profile given by name.
+ */
+export function resolveProfile(
+  profile: ProviderProfile | ProviderName | undefined,
+): ProviderProfile {
+  if (profile === undefined) {
+    return structuredOutputsProfile;
+  }
+  if (typeof profile === "string") {
+    const resolved = providerProfiles[profile];
+    if (!resolved) {
+      throw new Error(`Unknown provider profile '${profile}'`);
+    }
+    return resolved;
+  }
+  return profile;
+}
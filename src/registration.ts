@@ -0,0 +1,51 @@
+/**
+ * What to do when a type is registered again: throw a `RegistrationError`,
+ * replace the registered schema, keep the registered schema and discard the
+ * new one, or make the new schema the current version and keep the
+ * registered one as previous version.
+ */
+export type ConflictPolicy = "error" | "replace" | "keep-first" | "version";
+
+export type RegistrationIssueCode =
+  | "missing_discriminator"
+  | "duplicate_type"
+  | "already_registered"
+  | "invalid_schema"
+  | "incompatible";
+
+export interface RegistrationIssue {
+  readonly code: RegistrationIssueCode;
+  /** Index of the offending entry, `null` if the issue concerns all entries */
+  readonly index: number | null;
+  /** The type (value of the literal) of the entry, if it has one */
+  readonly typeName: string | null;
+  readonly message: string;
+}
+
+export type RegisterManyResult =
+  | { success: true; names: string[] }
+  | { success: false; error: RegistrationError };
+
+/**
+ * Returned by `registerMany` if any of the entries can not be registered,
+ * in which case none of them is. Thrown by `register` for conflicting types
+ * with the `error` policy.
+ */
+export class RegistrationError extends Error {
+  constructor(public readonly issues: RegistrationIssue[]) {
+    super(
+      `Failed to register schemas:\n` +
+        issues
+          .map((issue) => {
+            const entry =
+              issue.index === null
+                ? (issue.typeName ?? "<all>")
+                : `#${issue.index}` +
+                  (issue.typeName === null ? "" : ` (${issue.typeName})`);
+            return `  ${entry}: ${issue.message}`;
+          })
+          .join("\n"),
+    );
+    this.name = "RegistrationError";
+  }
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { isRecord, unwrap } from "./utils.js";
+
+/**
+ * Map a value produced for an LLM schema back onto the original schema:
+ * `null` values of optional fields become absent again, `null` values of
+ * fields with a default are replaced by the default.
+ *
+ * Fields that accept `null` in the original schema are left untouched.
+ * The value is not validated, unknown fields are kept as is.
+ */
+export function restoreOptionals(
+  schema: z.ZodTypeAny,
+  value: unknown,
+): unknown {
+  if (value === null) {
+    return restoreNull(schema);
+  }
+
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodObject && isRecord(value)) {
+    const shape = inner.shape as z.ZodRawShape;
+    const restored: Record<string, unknown> = { ...value };
+    for (const [key, field] of Object.entries(shape)) {
+      if (!(key in value)) {
+        continue;
+      }
+      const fieldValue = restoreOptionals(field, value[key]);
+      if (fieldValue === undefined) {
+        delete restored[key];
+      } else {
+        restored[key] = fieldValue;
+      }
+    }
+    return restored;
+  }
+
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((item) => restoreOptionals(inner.element, item));
+  }
+
+  if (inner instanceof z.ZodTuple && Array.isArray(value)) {
+    const items = inner.items as z.ZodTypeAny[];
+    const rest = inner._def.rest as z.ZodTypeAny | null;
+    return value.map((item, index) => {
+      const itemSchema = items[index] ?? rest;
+      return itemSchema ? restoreOptionals(itemSchema, item) : item;
+    });
+  }
+
+  if (inner instanceof z.ZodRecord && isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        restoreOptionals(inner.valueSchema, item),
+      ]),
+    );
+  }
+
+  if (inner instanceof z.ZodDiscriminatedUnion && isRecord(value)) {
+    const option = inner.optionsMap.get(value[inner.discriminator] as never);
+    return option ? restoreOptionals(option, value) : value;
+  }
+
+  if (inner instanceof z.ZodUnion) {
+    // pick the first option the restored value is valid for
+    for (const option of inner.options as z.ZodTypeAny[]) {
+      const restored = restoreOptionals(option, value);
+      if (option.safeParse(restored).success) {
+        return restored;
+      }
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Resolve a `null` value against the schema it was produced for.
+ */
+function restoreNull(schema: z.ZodTypeAny): unknown {
+  if (schema.isNullable()) {
+    return null;
+  }
+
+  let current = schema;
+  while (current instanceof z.ZodOptional || current instanceof z.ZodDefault) {
+    if (current instanceof z.ZodDefault) {
+      return current._def.defaultValue();
+    }
+    current = current.unwrap();
+  }
+
+  return current === schema ? null : undefined;
+}
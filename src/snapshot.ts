@@ -0,0 +1,111 @@
+import { z } from "zod";
+import type { Repo } from "./internals.js";
+import { hashString, lazySource } from "./utils.js";
+
+/**
+ * Frozen copy of the repos of a registry, e.g. to parse the output of a
+ * request with the exact catalog the request was sent with.
+ */
+export interface RegistrySnapshot {
+  readonly original: Repo;
+  readonly llm: Repo;
+  /**
+   * Hash of the content of both repos: the structure, the metadata and the
+   * versions of every type. Equal catalogs have equal hashes, refinements,
+   * transforms and defaults are told apart by the identity of their function.
+   */
+  readonly hash: string;
+}
+
+export function createSnapshot(original: Repo, llm: Repo): RegistrySnapshot {
+  let hash: string | undefined;
+  return Object.freeze({
+    original,
+    llm,
+    get hash() {
+      return (hash ??= hashString(
+        JSON.stringify([original, llm].map(content)),
+      ));
+    },
+  });
+}
+
+/**
+ * The content of a repo in a stable order, independent of the order the
+ * types were registered in.
+ */
+function content(repo: Repo): unknown {
+  const names = repo.schemas
+    .map((schema) => String(schema.shape[repo.discriminator]._def.value))
+    .sort();
+
+  return {
+    discriminator: repo.discriminator,
+    types: names.map((name) => ({
+      name,
+      current: repo.currentVersion(name),
+      versions: repo.versions(name).map((version) => ({
+        version,
+        schema: structure(repo.factory(name, version)!),
+        metadata: repo.metadata(name, version),
+      })),
+    })),
+  };
+}
+
+/** Identities of the functions in the schemas, e.g. refinements */
+const identities = new WeakMap<object, number>();
+let nextIdentity = 0;
+
+/**
+ * The structure of a Zod type as plain data. Functions are replaced by their
+ * identity instead of being called, so default factories such as
+ * `() => new Date()` do not change the structure, and recursive types end at
+ * the lazy type they originate from.
+ */
+function structure(value: unknown): unknown {
+  if (value instanceof z.ZodLazy) {
+    return {
+      typeName: value._def.typeName,
+      getter: identity(lazySource(value)),
+    };
+  }
+  if (value instanceof z.ZodType) {
+    const def = value._def as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(def).map(([key, entry]) => [
+        key,
+        structure(
+          value instanceof z.ZodObject && key === "shape" ? value.shape : entry,
+        ),
+      ]),
+    );
+  }
+  if (typeof value === "function") {
+    return `function#${identity(value)}`;
+  }
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  if (value instanceof RegExp || value instanceof Date) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(structure);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, structure(entry)]),
+    );
+  }
+  return value;
+}
+
+function identity(value: object): number {
+  let id = identities.get(value);
+  if (id === undefined) {
+    id = nextIdentity++;
+    identities.set(value, id);
+  }
+  return id;
+}
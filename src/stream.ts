@@ -0,0 +1,343 @@
+import type { z } from "zod";
+import type { Repo } from "./internals.js";
+import { OutputParseError, unwrapRoot } from "./parse.js";
+import { isRecord } from "./utils.js";
+
+/** Every field (deeply) optional, the shape of an output being streamed */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * The state of a streamed output after a chunk was written.
+ */
+export interface StreamUpdate<T = Record<string, unknown>> {
+  /** The type of the output once its value is complete, `null` before */
+  readonly type: string | null;
+  /**
+   * The output parsed so far, `null` before the first field. The last string
+   * may be incomplete, incomplete numbers and keywords are left out.
+   */
+  readonly partial: DeepPartial<T> | null;
+  /** Issues of the complete values against the schema of the type */
+  readonly issues: z.ZodIssue[];
+  /** Set once the output can not become valid anymore */
+  readonly error: OutputParseError | null;
+}
+
+export type StreamResult<T = Record<string, unknown>> =
+  | { success: true; type: string; data: T }
+  | { success: false; error: OutputParseError };
+
+export interface StreamParserOptions {
+  /** Called as soon as the type of the output is known */
+  readonly onType?: (type: string, schema: z.AnyZodObject) => void;
+}
+
+/**
+ * Incrementally parses an output of the repo streamed in text chunks. Write
+ * the chunks with `write` and finish with `end`.
+ */
+export class StreamParser<T = Record<string, unknown>> {
+  #repo: Repo;
+  #options: StreamParserOptions;
+  #text = "";
+  #schema: z.AnyZodObject | null = null;
+  #partialSchema: z.ZodTypeAny | null = null;
+  #update: StreamUpdate<T> = {
+    type: null,
+    partial: null,
+    issues: [],
+    error: null,
+  };
+
+  constructor(repo: Repo, options: StreamParserOptions = {}) {
+    this.#repo = repo;
+    this.#options = options;
+  }
+
+  /** The state after the last chunk */
+  public get current(): StreamUpdate<T> {
+    return this.#update;
+  }
+
+  /**
+   * Appends the chunk and parses the text received so far.
+   */
+  public write(chunk: string): StreamUpdate<T> {
+    if (this.#update.error) {
+      return this.#update;
+    }
+    this.#text += chunk;
+
+    let partial: unknown;
+    let complete: unknown;
+    try {
+      partial = unwrapRoot(this.#repo, parsePartialJSON(this.#text, true));
+      complete = unwrapRoot(this.#repo, parsePartialJSON(this.#text, false));
+    } catch (error) {
+      return this.#fail(
+        new OutputParseError(
+          `Output is not valid JSON: ${(error as Error).message}`,
+          this.#update.type,
+        ),
+      );
+    }
+    if (partial !== MISSING && !isRecord(partial)) {
+      return this.#fail(
+        new OutputParseError("Output is not a JSON object", null),
+      );
+    }
+
+    const key = this.#repo.discriminator;
+    if (!this.#schema && isRecord(complete) && key in complete) {
+      const name = String(complete[key]);
+      this.#schema = this.#repo.factory(name);
+      if (!this.#schema) {
+        return this.#fail(
+          new OutputParseError(`No schema registered for type '${name}'`, name),
+        );
+      }
+      this.#partialSchema = this.#schema.deepPartial();
+      this.#update = { ...this.#update, type: name };
+      this.#options.onType?.(name, this.#schema);
+    }
+
+    const result = this.#partialSchema?.safeParse(complete);
+    this.#update = {
+      ...this.#update,
+      partial: partial === MISSING ? null : (partial as DeepPartial<T>),
+      issues: result && !result.success ? result.error.issues : [],
+    };
+    return this.#update;
+  }
+
+  /**
+   * Parses the complete text with the schema of its type.
+   */
+  public end(): StreamResult<T> {
+    const { type, error } = this.#update;
+    if (error) {
+      return { success: false, error };
+    }
+
+    let output: unknown;
+    try {
+      output = unwrapRoot(this.#repo, JSON.parse(this.#text));
+    } catch (error) {
+      return {
+        success: false,
+        error: new OutputParseError(
+          `Output is not valid JSON: ${(error as Error).message}`,
+          type,
+        ),
+      };
+    }
+    if (!isRecord(output)) {
+      return {
+        success: false,
+        error: new OutputParseError("Output is not a JSON object", null),
+      };
+    }
+    if (!this.#schema || type === null) {
+      const name = String(output[this.#repo.discriminator]);
+      return {
+        success: false,
+        error: new OutputParseError(
+          `No schema registered for type '${name}'`,
+          name,
+        ),
+      };
+    }
+
+    const result = this.#schema.safeParse(output);
+    if (!result.success) {
+      return {
+        success: false,
+        error: new OutputParseError(
+          `Invalid output for type '${type}': ${result.error.message}`,
+          type,
+          result.error.issues,
+        ),
+      };
+    }
+    return { success: true, type, data: result.data as T };
+  }
+
+  #fail(error: OutputParseError): StreamUpdate<T> {
+    this.#update = { ...this.#update, error };
+    return this.#update;
+  }
+}
+
+/** Marks a value which has not been (completely) received yet */
+const MISSING = Symbol("missing");
+
+/**
+ * Parse the beginning of a JSON text. Objects and arrays are closed where the
+ * text ends, values which are not complete yet are left out. With
+ * `partialStrings` an incomplete string is kept as received so far. Throws
+ * if the text can not be the beginning of a JSON text.
+ */
+function parsePartialJSON(text: string, partialStrings: boolean): unknown {
+  let index = 0;
+
+  const skipWhitespace = () => {
+    while (/\s/.test(text[index] ?? "")) {
+      index++;
+    }
+  };
+  const unexpected = () =>
+    new SyntaxError(
+      index < text.length
+        ? `Unexpected token '${text[index]}' at position ${index}`
+        : "Unexpected end of JSON input",
+    );
+
+  const parseString = (keepPartial: boolean): string | typeof MISSING => {
+    const start = index++;
+    // end of the characters and escape sequences received completely
+    let end = index;
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"') {
+        return JSON.parse(text.slice(start, ++index)) as string;
+      }
+      index += char !== "\\" ? 1 : text[index + 1] === "u" ? 6 : 2;
+      if (index <= text.length) {
+        end = index;
+      }
+    }
+    index = text.length;
+    return keepPartial
+      ? (JSON.parse(`${text.slice(start, end)}"`) as string)
+      : MISSING;
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const char = text[index];
+    if (char === undefined) {
+      return MISSING;
+    }
+
+    if (char === "{") {
+      index++;
+      const object: Record<string, unknown> = {};
+      for (;;) {
+        skipWhitespace();
+        if (index >= text.length) {
+          return object;
+        }
+        if (text[index] === "}") {
+          index++;
+          return object;
+        }
+        if (text[index] !== '"') {
+          throw unexpected();
+        }
+        const key = parseString(false);
+        skipWhitespace();
+        if (key === MISSING || index >= text.length) {
+          return object;
+        }
+        if (text[index++] !== ":") {
+          index--;
+          throw unexpected();
+        }
+        const value = parseValue();
+        if (value === MISSING) {
+          return object;
+        }
+        object[key] = value;
+        skipWhitespace();
+        if (index >= text.length) {
+          return object;
+        }
+        if (text[index] === ",") {
+          index++;
+        } else if (text[index] !== "}") {
+          throw unexpected();
+        }
+      }
+    }
+
+    if (char === "[") {
+      index++;
+      const array: unknown[] = [];
+      for (;;) {
+        skipWhitespace();
+        if (index >= text.length) {
+          return array;
+        }
+        if (text[index] === "]") {
+          index++;
+          return array;
+        }
+        const value = parseValue();
+        if (value === MISSING) {
+          return array;
+        }
+        array.push(value);
+        skipWhitespace();
+        if (index >= text.length) {
+          return array;
+        }
+        if (text[index] === ",") {
+          index++;
+        } else if (text[index] !== "]") {
+          throw unexpected();
+        }
+      }
+    }
+
+    if (char === '"') {
+      return parseString(partialStrings);
+    }
+
+    const number = /-?(0|[1-9]\d*)?(\.\d*)?([eE][+-]?\d*)?/y;
+    number.lastIndex = index;
+    const [digits = ""] = number.exec(text) ?? [];
+    if (digits) {
+      index += digits.length;
+      // more digits may follow in the next chunk
+      if (index === text.length) {
+        return MISSING;
+      }
+      if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(digits)) {
+        return Number(digits);
+      }
+      index -= digits.length;
+      throw unexpected();
+    }
+
+    for (const [keyword, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      const received = text.slice(index, index + keyword.length);
+      if (received === keyword) {
+        index += keyword.length;
+        return value;
+      }
+      if (
+        index + received.length === text.length &&
+        keyword.startsWith(received)
+      ) {
+        index = text.length;
+        return MISSING;
+      }
+    }
+    throw unexpected();
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (index < text.length) {
+    throw unexpected();
+  }
+  return value;
+}
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { toJSONSchema, type JSONSchema } from "./json-schema.js";
+import type { Repo } from "./internals.js";
+
+export type ToolFormat = "openai" | "anthropic";
+
+/**
+ * Function tool definition of the OpenAI chat completions API.
+ */
+export interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: JSONSchema;
+    strict: boolean;
+  };
+}
+
+/**
+ * Tool definition of the Anthropic messages API.
+ */
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: JSONSchema;
+}
+
+/**
+ * A tool call made by the model. OpenAI passes the arguments as JSON string,
+ * Anthropic passes an `input` object.
+ */
+export type ToolCall =
+  | { name: string; arguments: string | Record<string, unknown> }
+  | { name: string; input: Record<string, unknown> };
+
+export type ToolCallResult<T = Record<string, unknown>> =
+  | { success: true; type: string; data: T }
+  | { success: false; error: ToolCallError };
+
+/**
+ * Returned by `dispatchToolCall` if a tool call can not be parsed.
+ */
+export class ToolCallError extends Error {
+  constructor(
+    message: string,
+    /** The name of the called tool */
+    public readonly toolName: string,
+    /** The validation issues against the llm schema */
+    public readonly issues: z.ZodIssue[] = [],
+  ) {
+    super(message);
+    this.name = "ToolCallError";
+  }
+}
+
+/**
+ * Turn every schema of the repo into a tool definition. The tool is named
+ * after the type and described by its metadata (or the schema description),
+ * the discriminator itself is omitted from the parameters.
+ */
+export function toTools(repo: Repo, format: "openai"): OpenAITool[];
+export function toTools(repo: Repo, format: "anthropic"): AnthropicTool[];
+export function toTools(
+  repo: Repo,
+  format: ToolFormat,
+): (OpenAITool | AnthropicTool)[];
+export function toTools(
+  repo: Repo,
+  format: ToolFormat,
+): (OpenAITool | AnthropicTool)[] {
+  return repo.schemas.map((schema) => {
+    const name = String(schema.shape[repo.discriminator]._def.value);
+    const { $schema: _, ...parameters } = toJSONSchema(
+      schema.omit({ [repo.discriminator]: true }),
+    );
+    const metadata = repo.metadata(name);
+    const text = [
+      metadata?.description ?? schema.description,
+      metadata?.chooseWhen && `Choose when: ${metadata.chooseWhen}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    const description = text ? { description: text } : {};
+
+    if (format === "openai") {
+      return {
+        type: "function",
+        function: { name, ...description, parameters, strict: true },
+      };
+    }
+    return { name, ...description, input_schema: parameters };
+  });
+}
+
+/**
+ * Look up the schema of the called tool and parse its arguments.
+ */
+export function dispatchToolCall(repo: Repo, call: ToolCall): ToolCallResult {
+  const schema = repo.factory(call.name);
+  if (!schema) {
+    return {
+      success: false,
+      error: new ToolCallError(`Unknown tool '${call.name}'`, call.name),
+    };
+  }
+
+  let args: unknown = "input" in call ? call.input : call.arguments;
+  if (typeof args === "string") {
+    try {
+      args = JSON.parse(args);
+    } catch {
+      return {
+        success: false,
+        error: new ToolCallError(
+          `Arguments of tool '${call.name}' are not valid JSON`,
+          call.name,
+        ),
+      };
+    }
+  }
+
+  const result = schema.safeParse({
+    ...(args as object),
+    [repo.discriminator]: call.name,
+  });
+  if (!result.success) {
+    return {
+      success: false,
+      error: new ToolCallError(
+        `Invalid arguments for tool '${call.name}': ${result.error.message}`,
+        call.name,
+        result.error.issues,
+      ),
+    };
+  }
+  return { success: true, type: call.name, data: result.data };
+}
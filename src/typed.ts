@@ -0,0 +1,370 @@
+import type { z } from "zod";
+import type { FakeOutputOptions } from "./fake.js";
+import type {
+  GenerateOptions,
+  GenerateResult,
+  ModelClient,
+} from "./generate.js";
+import type { RegistryType } from "./index.js";
+import type { HydrateResult } from "./hydrate.js";
+import type { ListOptions, ListSchema } from "./list.js";
+import type { MatchFallback } from "./match.js";
+import type { ParseOptions, ParseResult } from "./parse.js";
+import type { ProviderName, ProviderProfile } from "./profiles.js";
+import type { StreamParser, StreamParserOptions } from "./stream.js";
+import type { ToolCall, ToolCallResult } from "./tools.js";
+import {
+  Registry,
+  type RegisterOptions,
+  type RegistryOptions,
+  type Repo,
+  type SchemaFilter,
+} from "./internals.js";
+
+/**
+ * A schema registered with a typed registry: the original schema, the keys
+ * removed from the llm schema and whether it is registered for the llm repo.
+ */
+export interface TypedEntry {
+  readonly schema: z.AnyZodObject;
+  readonly omit: PropertyKey;
+  readonly llm: boolean;
+}
+
+/** The registered schemas of a typed registry by type */
+export type TypeMap = Record<string, TypedEntry>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Keys of the literal field in the original and the llm schemas, see
+ * `RegistryOptions.discriminator`.
+ */
+export type DiscriminatorOf<O extends RegistryOptions> = O extends {
+  discriminator: infer D;
+}
+  ? D extends string
+    ? { original: D; llm: D }
+    : D extends {
+          original: infer K extends string;
+          llm: infer L extends string;
+        }
+      ? { original: K; llm: L }
+      : { original: string; llm: string }
+  : { original: "type"; llm: "type" };
+
+/**
+ * Whether optionals and defaults are nullable in the llm schemas built for
+ * the profile, `boolean` if it can not be told from the type of the profile.
+ */
+export type NullableOptionalsOf<
+  O,
+  P = O extends { profile: infer P } ? P : undefined,
+> = O extends { nullableOptionals: infer N extends boolean }
+  ? N
+  : P extends undefined | "anthropic"
+    ? false
+    : P extends "openai" | "gemini"
+      ? true
+      : P extends { optionals: "nullable" }
+        ? true
+        : P extends { optionals?: "required" | undefined }
+          ? false
+          : boolean;
+
+/**
+ * The llm variant of a Zod type: optionals and defaults are removed, with
+ * `N` they are replaced by nullables. Objects, arrays, nullables, records,
+ * tuples and unions are mapped, other types are kept as is.
+ */
+export type LLMType<T extends z.ZodTypeAny, N extends boolean> =
+  T extends z.ZodOptional<infer I>
+    ? LLMOptional<I, N>
+    : T extends z.ZodDefault<infer I>
+      ? LLMOptional<I, N>
+      : LLMChildren<T, N>;
+
+type LLMOptional<T extends z.ZodTypeAny, N extends boolean> =
+  T extends z.ZodOptional<infer I>
+    ? LLMOptional<I, N>
+    : T extends z.ZodDefault<infer I>
+      ? LLMOptional<I, N>
+      : N extends true
+        ? T extends z.ZodNullable<z.ZodTypeAny>
+          ? LLMChildren<T, N>
+          : z.ZodNullable<LLMChildren<T, N>>
+        : LLMChildren<T, N>;
+
+type LLMChildren<T extends z.ZodTypeAny, N extends boolean> =
+  T extends z.ZodObject<infer S, infer U, infer C>
+    ? z.ZodObject<LLMShape<S, N>, U, C>
+    : T extends z.ZodArray<infer E, infer A>
+      ? z.ZodArray<LLMType<E, N>, A>
+      : T extends z.ZodNullable<infer I>
+        ? z.ZodNullable<LLMType<I, N>>
+        : T extends z.ZodRecord<infer K, infer V>
+          ? z.ZodRecord<K, LLMType<V, N>>
+          : T extends z.ZodTuple<infer I, infer R>
+            ? LLMItems<I, N> extends infer L extends z.ZodTupleItems | []
+              ? z.ZodTuple<L, R>
+              : T
+            : T extends z.ZodUnion<infer I>
+              ? LLMItems<I, N> extends infer L extends z.ZodUnionOptions
+                ? z.ZodUnion<L>
+                : T
+              : T;
+
+type LLMItems<I extends readonly z.ZodTypeAny[], N extends boolean> = {
+  [K in keyof I]: I[K] extends z.ZodTypeAny ? LLMType<I[K], N> : I[K];
+};
+
+type LLMShape<S extends z.ZodRawShape, N extends boolean> = {
+  [K in keyof S]: LLMType<S[K], N>;
+};
+
+/**
+ * The schema of the llm repo built from the original schema `S`: the keys
+ * `K` are removed, optionals and defaults are removed (or nullable with `N`)
+ * and the discriminator is renamed.
+ */
+export type LLMSchema<
+  S extends z.AnyZodObject,
+  K extends PropertyKey,
+  N extends boolean,
+  D extends { original: string; llm: string } = {
+    original: "type";
+    llm: "type";
+  },
+> = z.ZodObject<
+  Simplify<
+    LLMShape<Omit<S["shape"], D["original"] | K>, N> & {
+      [L in D["llm"]]: S["shape"][D["original"]];
+    }
+  >
+>;
+
+/** The original schemas of the registered types by type */
+export type OriginalSchemas<T extends TypeMap> = {
+  [Name in keyof T]: T[Name]["schema"];
+};
+
+/** The llm schemas of the types registered for the llm repo by type */
+export type LLMSchemas<
+  T extends TypeMap,
+  N extends boolean,
+  D extends { original: string; llm: string },
+> = {
+  [Name in keyof T as T[Name]["llm"] extends true ? Name : never]: LLMSchema<
+    T[Name]["schema"],
+    T[Name]["omit"],
+    N,
+    D
+  >;
+};
+
+/**
+ * A repo whose `factory`, `union`, `enum` and `schemas` carry the types of
+ * the registered schemas.
+ */
+export interface TypedRepo<
+  M extends Record<string, z.AnyZodObject>,
+  D extends string = string,
+> extends Repo {
+  get discriminator(): D;
+  get schemas(): M[keyof M][];
+  get enum(): z.ZodEnum<[keyof M & string, ...(keyof M & string)[]]>;
+  get union(): z.ZodDiscriminatedUnion<D, [Option<M, D>, ...Option<M, D>[]]>;
+
+  /**
+   * `null` if the type was unregistered or, with `onConflict: 'keep-first'`,
+   * if the typed schema was discarded for an earlier one.
+   */
+  factory<Name extends keyof M & string>(name: Name): M[Name] | null;
+  factory(name: string, version?: number): z.AnyZodObject | null;
+  parseLLMOutput(
+    text: string,
+    options?: ParseOptions,
+  ): ParseResult<z.infer<Option<M, D>>>;
+  createStreamParser(
+    options?: StreamParserOptions,
+  ): StreamParser<z.infer<Option<M, D>>>;
+  fake(options?: FakeOutputOptions): z.input<Option<M, D>>;
+  list<const K extends string = "items">(
+    options?: ListOptions<K>,
+  ): ListSchema<
+    z.ZodType<z.output<Option<M, D>>, z.ZodTypeDef, z.input<Option<M, D>>>,
+    K
+  >;
+}
+
+type Option<
+  M extends Record<string, z.AnyZodObject>,
+  D extends string,
+> = Extract<M[keyof M], z.ZodDiscriminatedUnionOption<D>>;
+
+/**
+ * A registry whose `register` returns the registry typed with the new
+ * schema, so the repos infer the exact types of the registered schemas.
+ * Keys given in the local blacklist are removed from the llm schema types,
+ * filter functions only at runtime.
+ */
+export interface TypedRegistryType<
+  T extends TypeMap = {},
+  O extends RegistryOptions = {},
+> extends Omit<
+    RegistryType,
+    | "llm"
+    | "original"
+    | "llmFor"
+    | "register"
+    | "restoreOptionals"
+    | "hydrate"
+    | "dispatchToolCall"
+    | "match"
+    | "generate"
+  > {
+  get llm(): TypedRepo<
+    LLMSchemas<T, NullableOptionalsOf<O>, DiscriminatorOf<O>>,
+    DiscriminatorOf<O>["llm"]
+  >;
+  get original(): TypedRepo<OriginalSchemas<T>, DiscriminatorOf<O>["original"]>;
+  llmFor<P extends ProviderProfile | ProviderName>(
+    profile: P,
+  ): TypedRepo<
+    LLMSchemas<T, NullableOptionalsOf<O, P>, DiscriminatorOf<O>>,
+    DiscriminatorOf<O>["llm"]
+  >;
+  register<
+    S extends z.ZodObject<{
+      [K in DiscriminatorOf<O>["original"]]: z.ZodLiteral<string>;
+    }>,
+    const K extends Exclude<
+      keyof S["shape"],
+      DiscriminatorOf<O>["original"]
+    > = never,
+    const R extends RegisterOptions = {},
+  >(
+    schema: S,
+    localBlacklist?: readonly (K | SchemaFilter)[],
+    opts?: R,
+  ): TypedRegistryType<
+    Simplify<
+      Omit<T, TypeName<S, DiscriminatorOf<O>["original"]>> & {
+        [Name in TypeName<S, DiscriminatorOf<O>["original"]>]: {
+          schema: S;
+          omit: K;
+          llm: R extends { ignoreLLM: true } ? false : true;
+        };
+      }
+    >,
+    O
+  >;
+  /**
+   * Restores the output of a type of the llm repo, typed as the input of its
+   * original schema without the blacklisted keys.
+   */
+  restoreOptionals(output: Record<string, unknown>): Restored<T>;
+  /** Resolves with an instance of one of the original schemas */
+  hydrate<C = undefined>(
+    output: Record<string, unknown>,
+    context?: C,
+  ): HydrateResult<Instance<OriginalSchemas<T>>>;
+  /**
+   * Parses the arguments with the llm schema built for the provider of the
+   * call: OpenAI for `arguments`, Anthropic for `input`.
+   */
+  dispatchToolCall<Call extends ToolCall>(
+    call: Call,
+  ): ToolCallResult<
+    Instance<
+      LLMSchemas<
+        T,
+        NullableOptionalsOf<
+          O,
+          Call extends { input: unknown } ? "anthropic" : "openai"
+        >,
+        DiscriminatorOf<O>
+      >
+    >
+  >;
+  /**
+   * Requires a handler for every type of the llm repo, each receiving the
+   * parsed payload of its type.
+   */
+  match<
+    H extends TypedMatchHandlers<
+      LLMSchemas<T, NullableOptionalsOf<O>, DiscriminatorOf<O>>
+    >,
+    F = never,
+  >(
+    output: Record<string, unknown>,
+    handlers: H,
+    fallback?: MatchFallback<F>,
+  ): ReturnType<H[keyof H]> | F;
+  /** Resolves with an instance of one of the original schemas */
+  generate<C = undefined>(
+    client: ModelClient,
+    prompt: string,
+    options?: GenerateOptions<C>,
+  ): Promise<GenerateResult<Instance<OriginalSchemas<T>>>>;
+}
+
+/** An instance of one of the schemas */
+type Instance<M extends Record<string, z.ZodTypeAny>> = z.infer<M[keyof M]>;
+
+/** The restored outputs of the types registered for the llm repo */
+type Restored<T extends TypeMap> = {
+  [Name in keyof T]: T[Name]["llm"] extends true
+    ? Simplify<Omit<z.input<T[Name]["schema"]>, T[Name]["omit"]>>
+    : never;
+}[keyof T];
+
+/** Handlers of `match` for every type of the repo */
+export type TypedMatchHandlers<M extends Record<string, z.AnyZodObject>> = {
+  [Name in keyof M]: (payload: z.infer<M[Name]>) => unknown;
+};
+
+type TypeName<S extends z.AnyZodObject, D extends string> =
+  S["shape"][D] extends z.ZodLiteral<infer V extends string> ? V : never;
+
+/**
+ * Turns the keys of a typed local blacklist into filters removing the
+ * top-level fields of the schema.
+ */
+export function toFilters(
+  localBlacklist: readonly (PropertyKey | SchemaFilter)[] = [],
+): SchemaFilter[] {
+  const keys = new Set(
+    localBlacklist.filter((entry) => typeof entry !== "function"),
+  );
+  const filters = localBlacklist.filter(
+    (entry): entry is SchemaFilter => typeof entry === "function",
+  );
+  return keys.size
+    ? [(key, _, { path }) => path.length === 1 && keys.has(key), ...filters]
+    : filters;
+}
+
+/**
+ * Runtime of `TypedRegistryType`: a registry whose `register` turns the keys
+ * of the local blacklist into filters and returns the registry itself
+ * instead of the shadowed schema. Every other method is the registry's own.
+ */
+export function createTypedRuntime(options?: RegistryOptions): Registry {
+  const registry = new Registry(options);
+  return Object.assign(registry, {
+    register: (
+      schema: z.AnyZodObject,
+      localBlacklist?: readonly (PropertyKey | SchemaFilter)[],
+      opts?: RegisterOptions,
+    ) => {
+      Registry.prototype.register.call(
+        registry,
+        schema,
+        toFilters(localBlacklist),
+        opts,
+      );
+      return registry;
+    },
+  });
+}
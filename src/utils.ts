@@ -0,0 +1,189 @@
+import { z } from "zod";
+
+/**
+ * Render a field path in a human readable form, e.g. `items[].cost`.
+ */
+export function formatPath(path: readonly string[]): string {
+  return path.reduce(
+    (acc, segment) =>
+      segment.startsWith("[") || segment === "{}" || acc === ""
+        ? `${acc}${segment}`
+        : `${acc}.${segment}`,
+    "",
+  );
+}
+
+const LAZY_SOURCE = Symbol("hobsons.lazySource");
+
+/**
+ * Mark a rebuilt `z.lazy` definition with the lazy type it originates from,
+ * so recursion can still be detected after a schema was transformed.
+ */
+export function withLazySource(
+  def: z.ZodLazyDef,
+  source: z.ZodLazy<z.ZodTypeAny>,
+): z.ZodLazyDef {
+  return { ...def, [LAZY_SOURCE]: lazySource(source) } as z.ZodLazyDef;
+}
+
+/**
+ * The lazy type a (possibly rebuilt) lazy type originates from. Other types
+ * are returned as is.
+ */
+export function lazySource(zodType: z.ZodTypeAny): z.ZodTypeAny {
+  if (zodType instanceof z.ZodLazy) {
+    const def = zodType._def as z.ZodLazyDef & {
+      [LAZY_SOURCE]?: z.ZodTypeAny;
+    };
+    return def[LAZY_SOURCE] ?? zodType;
+  }
+  return zodType;
+}
+
+/**
+ * Strip the wrappers around a Zod type which do not change the structure of
+ * the values it accepts.
+ */
+export function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  for (;;) {
+    if (
+      current instanceof z.ZodOptional ||
+      current instanceof z.ZodNullable ||
+      current instanceof z.ZodDefault ||
+      current instanceof z.ZodCatch ||
+      current instanceof z.ZodReadonly
+    ) {
+      current = current._def.innerType;
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else if (current instanceof z.ZodBranded) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodLazy) {
+      current = current.schema;
+    } else if (current instanceof z.ZodPipeline) {
+      current = current._def.in;
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * The JSON schema string format enforced by a check of a `z.string()`, if
+ * there is one.
+ */
+export function stringFormat(check: z.ZodStringCheck): string | undefined {
+  switch (check.kind) {
+    case "email":
+      return "email";
+    case "url":
+      return "uri";
+    case "uuid":
+      return "uuid";
+    case "datetime":
+      return "date-time";
+    case "ip":
+      return check.version && `ip${check.version}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Non-cryptographic hash of the text as hex string, two 53 bit cyrb53
+ * hashes with different seeds.
+ */
+export function hashString(text: string): string {
+  return [0, 0x9e3779b9]
+    .map((seed) => cyrb53(text, seed).toString(16).padStart(14, "0"))
+    .join("");
+}
+
+function cyrb53(text: string, seed: number): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The direct children of a Zod type together with their path segment (see
+ * `FilterContext`). Wrapped types (optionals, effects, ...) have none.
+ */
+export function children(
+  zodType: z.ZodTypeAny,
+): [child: z.ZodTypeAny, segment: string | undefined][] {
+  if (zodType instanceof z.ZodObject) {
+    const entries: [z.ZodTypeAny, string | undefined][] = Object.entries(
+      zodType.shape as z.ZodRawShape,
+    ).map(([key, value]) => [value, key]);
+    const catchall = zodType._def.catchall as z.ZodTypeAny;
+    return catchall instanceof z.ZodNever
+      ? entries
+      : [...entries, [catchall, "{}"]];
+  }
+  if (zodType instanceof z.ZodArray) {
+    return [[zodType.element, "[]"]];
+  }
+  if (zodType instanceof z.ZodSet) {
+    return [[zodType._def.valueType, "[]"]];
+  }
+  if (zodType instanceof z.ZodRecord || zodType instanceof z.ZodMap) {
+    return [[zodType._def.valueType, "{}"]];
+  }
+  if (zodType instanceof z.ZodTuple) {
+    const rest = zodType._def.rest as z.ZodTypeAny | null;
+    const items: [z.ZodTypeAny, string | undefined][] = (
+      zodType.items as z.ZodTypeAny[]
+    ).map((item, index) => [item, `[${index}]`]);
+    return rest ? [...items, [rest, "[]"]] : items;
+  }
+  if (
+    zodType instanceof z.ZodUnion ||
+    zodType instanceof z.ZodDiscriminatedUnion
+  ) {
+    return (zodType.options as z.ZodTypeAny[]).map((option) => [
+      option,
+      undefined,
+    ]);
+  }
+  if (zodType instanceof z.ZodIntersection) {
+    return [
+      [zodType._def.left, undefined],
+      [zodType._def.right, undefined],
+    ];
+  }
+  if (zodType instanceof z.ZodPipeline) {
+    return [
+      [zodType._def.in, undefined],
+      [zodType._def.out, undefined],
+    ];
+  }
+  if (zodType instanceof z.ZodLazy) {
+    return [[zodType.schema, undefined]];
+  }
+  if (zodType instanceof z.ZodEffects) {
+    return [[zodType.innerType(), undefined]];
+  }
+  if (zodType instanceof z.ZodBranded || zodType instanceof z.ZodPromise) {
+    return [[zodType._def.type, undefined]];
+  }
+  if ("innerType" in zodType._def) {
+    // optionals, nullables, defaults, catches and readonly types
+    return [[zodType._def.innerType as z.ZodTypeAny, undefined]];
+  }
+  return [];
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { z } from "zod";
+import {
+  checkCompatibility,
+  createRegistry,
+  formatPath,
+  IncompatibleSchemaError,
+  structuredOutputsProfile,
+} from "../src/index.js";
+
+interface TreeNode {
+  label: string;
+  children: TreeNode[];
+}
+
+const treeNode: z.ZodType<TreeNode> = z.lazy(() =>
+  z.object({ label: z.string(), children: z.array(treeNode) }),
+);
+
+const eventSchema = z.object({
+  type: z.literal("event"),
+  title: z.string(),
+  startsAt: z.date(),
+  attendees: z.array(
+    z.object({
+      name: z.string(),
+      seats: z.bigint(),
+    }),
+  ),
+  payload: z.any(),
+  slug: z.string().transform((value) => value.toLowerCase()),
+  capacity: z.number().refine((value) => value > 0),
+  mixed: z.intersection(
+    z.object({ a: z.string() }),
+    z.object({ b: z.string() }),
+  ),
+});
+
+function issuePaths(schema: z.AnyZodObject) {
+  return checkCompatibility(schema).issues.map((issue) => [
+    formatPath(issue.path),
+    issue.code,
+  ]);
+}
+
+describe("checkCompatibility", () => {
+  it("should report every unsupported construct with its path", () => {
+    expect(issuePaths(eventSchema)).toEqual([
+      ["startsAt", "unsupported_type"],
+      ["attendees[].seats", "unsupported_type"],
+      ["payload", "unsupported_type"],
+      ["slug", "transform"],
+      ["capacity", "refinement"],
+      ["mixed", "unsupported_type"],
+    ]);
+  });
+
+  it("should accept supported schemas", () => {
+    const report = checkCompatibility(
+      z.object({
+        type: z.literal("chart"),
+        title: z.string().min(1),
+        data: z.array(z.union([z.string(), z.number()])),
+        kind: z.enum(["line", "bar"]),
+        color: z.string().nullable(),
+      }),
+    );
+
+    expect(report).toEqual({
+      typeName: "chart",
+      profile: structuredOutputsProfile.name,
+      compatible: true,
+      issues: [],
+    });
+  });
+
+  it("should detect recursive schemas", () => {
+    const schema = z.object({ type: z.literal("tree"), root: treeNode });
+
+    expect(issuePaths(schema)).toEqual([["root.children[]", "recursion"]]);
+  });
+
+  it("should respect the profile", () => {
+    const report = checkCompatibility(
+      z.object({
+        type: z.literal("event"),
+        startsAt: z.date(),
+        capacity: z.number().refine((value) => value > 0),
+      }),
+      {
+        ...structuredOutputsProfile,
+        name: "lenient",
+        unsupportedTypes: [],
+        allowRefinements: true,
+      },
+    );
+
+    expect(report.compatible).toBe(true);
+    expect(report.profile).toBe("lenient");
+  });
+});
+
+describe("Registry compatibility", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should not check schemas without onIncompatible", () => {
+    const registry = createRegistry();
+    expect(() => registry.register(eventSchema)).not.toThrow();
+  });
+
+  it("should throw and leave the registry untouched", () => {
+    const registry = createRegistry({ onIncompatible: "throw" });
+
+    expect(() => registry.register(eventSchema)).toThrow(
+      IncompatibleSchemaError,
+    );
+    expect(registry.original.factory("event")).toBeNull();
+    expect(registry.llm.factory("event")).toBeNull();
+  });
+
+  it("should include the report in the error", () => {
+    const registry = createRegistry({ onIncompatible: "throw" });
+
+    try {
+      registry.register(eventSchema);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(IncompatibleSchemaError);
+      const { report } = error as IncompatibleSchemaError;
+      expect(report.typeName).toBe("event");
+      expect(report.issues).toHaveLength(6);
+      expect((error as Error).message).toContain(
+        "attendees[].seats: ZodBigInt is not supported",
+      );
+    }
+  });
+
+  it("should warn and register the schema", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const registry = createRegistry({ onIncompatible: "warn" });
+
+    registry.register(eventSchema);
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0]?.[0]).toContain("startsAt");
+    expect(registry.llm.factory("event")).not.toBeNull();
+  });
+
+  it("should drop the offending fields from the llm repo", () => {
+    const registry = createRegistry({ onIncompatible: "drop" });
+
+    registry.register(eventSchema);
+
+    const llmSchema = registry.llm.factory("event")!;
+    expect(Object.keys(llmSchema.shape)).toEqual([
+      "title",
+      "attendees",
+      "type",
+    ]);
+    expect(Object.keys(llmSchema.shape.attendees.element.shape)).toEqual([
+      "name",
+    ]);
+    expect(Object.keys(registry.original.factory("event")!.shape)).toEqual(
+      Object.keys(eventSchema.shape),
+    );
+  });
+
+  it("should detect recursion in the transformed llm schema", () => {
+    const registry = createRegistry();
+    registry.register(z.object({ type: z.literal("tree"), root: treeNode }));
+
+    const [report] = registry.checkCompatibility("tree");
+    expect(report?.issues.map((issue) => issue.code)).toEqual(["recursion"]);
+  });
+
+  it("should not check schemas ignored for the llm repo", () => {
+    const registry = createRegistry({ onIncompatible: "throw" });
+
+    registry.register(eventSchema, undefined, { ignoreLLM: true });
+
+    expect(registry.original.factory("event")).not.toBeNull();
+  });
+
+  it("should check the llm repo on demand", () => {
+    const registry = createRegistry();
+    registry.register(eventSchema);
+    registry.register(z.object({ type: z.literal("note"), text: z.string() }));
+
+    const reports = registry.checkCompatibility();
+    expect(reports.map((report) => report.compatible)).toEqual([false, true]);
+    expect(registry.checkCompatibility("note")).toHaveLength(1);
+    expect(registry.checkCompatibility("unknown")).toEqual([]);
+  });
+});
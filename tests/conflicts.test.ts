@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createRegistry, RegistrationError } from "../src/index.js";
+
+const userSchema = z.object({
+  type: z.literal("user"),
+  name: z.string(),
+});
+
+const userSchemaV2 = z.object({
+  type: z.literal("user"),
+  firstName: z.string(),
+  lastName: z.string(),
+});
+
+const teamSchema = z.object({
+  type: z.literal("team"),
+  members: z.array(z.string()),
+});
+
+describe("conflict policy", () => {
+  it("should replace by default and return the replaced schema", () => {
+    const registry = createRegistry();
+
+    expect(registry.register(userSchema)).toBeNull();
+    expect(registry.register(userSchemaV2)).toBe(userSchema);
+    expect(registry.original.factory("user")).toBe(userSchemaV2);
+    expect(registry.original.factory("user", 1)).toBe(userSchemaV2);
+    expect(registry.original.factory("user", 2)).toBeNull();
+    expect(registry.llm.factory("user")!.shape).toHaveProperty("firstName");
+  });
+
+  it("should throw with the error policy", () => {
+    const registry = createRegistry({ onConflict: "error" });
+    registry.register(userSchema);
+
+    expect(() => registry.register(userSchemaV2)).toThrow(RegistrationError);
+    expect(() => registry.register(userSchemaV2)).toThrow(
+      "Failed to register schemas:\n  user: Type 'user' is already registered",
+    );
+    expect(registry.original.factory("user")).toBe(userSchema);
+    expect(registry.llm.factory("user")!.shape).toHaveProperty("name");
+  });
+
+  it("should keep the first schema and return the discarded one", () => {
+    const registry = createRegistry({ onConflict: "keep-first" });
+    registry.register(userSchema);
+
+    expect(registry.register(userSchemaV2)).toBe(userSchemaV2);
+    expect(registry.original.factory("user")).toBe(userSchema);
+    expect(registry.llm.factory("user")!.shape).toHaveProperty("name");
+  });
+
+  it("should keep previous versions with the version policy", () => {
+    const registry = createRegistry({ onConflict: "version" });
+    registry.register(userSchema);
+    registry.register(teamSchema);
+
+    expect(registry.register(userSchemaV2)).toBe(userSchema);
+    expect(registry.original.schemas).toEqual([userSchemaV2, teamSchema]);
+    expect(registry.original.factory("user", 1)).toBe(userSchema);
+    expect(registry.original.factory("user", 2)).toBe(userSchemaV2);
+    expect(registry.llm.factory("user", 1)!.shape).toHaveProperty("name");
+    expect(registry.llm.union.options).toHaveLength(2);
+    expect(registry.llmFor("anthropic").factory("user", 1)).not.toBeNull();
+
+    registry.unregister("user");
+    expect(registry.original.factory("user", 1)).toBeNull();
+  });
+
+  it("should drop the llm schema when replaced by an ignored one", () => {
+    const registry = createRegistry();
+    registry.register(userSchema);
+    registry.register(userSchemaV2, undefined, { ignoreLLM: true });
+
+    expect(registry.llm.factory("user")).toBeNull();
+  });
+
+  describe("registerMany", () => {
+    it("should apply the configured policy", () => {
+      const registry = createRegistry({ onConflict: "replace" });
+      registry.register(userSchema);
+
+      const result = registry.registerMany([userSchemaV2, teamSchema]);
+
+      expect(result).toEqual({ success: true, names: ["user", "team"] });
+      expect(registry.original.factory("user")).toBe(userSchemaV2);
+    });
+
+    it("should skip conflicting entries with keep-first", () => {
+      const registry = createRegistry({ onConflict: "keep-first" });
+      registry.register(userSchema);
+
+      const result = registry.registerMany([
+        userSchemaV2,
+        teamSchema,
+        teamSchema.extend({ lead: z.string() }),
+      ]);
+
+      expect(result).toEqual({ success: true, names: ["team"] });
+      expect(registry.original.schemas).toEqual([userSchema, teamSchema]);
+    });
+
+    it("should register versions in the order of the batch", () => {
+      const registry = createRegistry({ onConflict: "version" });
+
+      registry.registerMany([userSchema, userSchemaV2]);
+
+      expect(registry.original.factory("user", 1)).toBe(userSchema);
+      expect(registry.original.factory("user")).toBe(userSchemaV2);
+    });
+  });
+});
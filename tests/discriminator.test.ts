@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createRegistry } from "../src/index.js";
+
+const orderSchema = z.object({
+  kind: z.literal("order"),
+  type: z.enum(["online", "store"]),
+  total: z.number(),
+  note: z.string().optional(),
+  internalId: z.string().default("generated"),
+});
+
+const refundSchema = z.object({
+  kind: z.literal("refund"),
+  type: z.enum(["full", "partial"]),
+  amount: z.number(),
+});
+
+describe("discriminator", () => {
+  it("should discriminate by the configured key", () => {
+    const registry = createRegistry({ discriminator: "kind" });
+    registry.register(orderSchema);
+    registry.register(refundSchema);
+
+    expect(registry.original.discriminator).toBe("kind");
+    expect(registry.llm.discriminator).toBe("kind");
+    expect(registry.original.factory("order")).toBe(orderSchema);
+    expect(registry.llm.enum.options).toEqual(["order", "refund"]);
+    expect(
+      registry.llm.union.parse({ kind: "refund", type: "full", amount: 10 }),
+    ).toEqual({ kind: "refund", type: "full", amount: 10 });
+  });
+
+  it("should protect the configured key from filters", () => {
+    const registry = createRegistry({
+      discriminator: "kind",
+      globalBlacklist: [(key) => key === "kind" || key === "internalId"],
+    });
+    registry.register(orderSchema);
+
+    expect(Object.keys(registry.llm.factory("order")!.shape)).toEqual([
+      "type",
+      "total",
+      "note",
+      "kind",
+    ]);
+  });
+
+  it("should require the configured key", () => {
+    const registry = createRegistry({ discriminator: "kind" });
+
+    expect(() =>
+      registry.register(z.object({ type: z.literal("order") })),
+    ).toThrow(
+      "Precodition Failed: Schema is missing the kind: zod.literal('...').",
+    );
+  });
+
+  describe("different keys", () => {
+    const discriminator = { original: "kind", llm: "category" };
+
+    it("should rename the discriminator in the llm repo", () => {
+      const registry = createRegistry({ discriminator });
+      registry.register(orderSchema);
+      registry.register(refundSchema);
+
+      const llmSchema = registry.llm.factory("order")!;
+      expect(registry.llm.discriminator).toBe("category");
+      expect(llmSchema.shape).not.toHaveProperty("kind");
+      expect(llmSchema.shape.category.value).toBe("order");
+      expect(registry.llm.union.optionsMap.has("refund")).toBe(true);
+      expect(registry.llmFor("openai").discriminator).toBe("category");
+    });
+
+    it("should map the discriminator back when hydrating", () => {
+      const registry = createRegistry({
+        discriminator,
+        nullableOptionals: true,
+      });
+      registry.register(orderSchema);
+
+      const output = registry.llm.factory("order")!.parse({
+        category: "order",
+        type: "online",
+        total: 20,
+        note: null,
+        internalId: null,
+      });
+
+      expect(registry.restoreOptionals(output)).toEqual({
+        kind: "order",
+        type: "online",
+        total: 20,
+        internalId: "generated",
+      });
+      expect(registry.hydrate(output)).toEqual({
+        success: true,
+        data: {
+          kind: "order",
+          type: "online",
+          total: 20,
+          internalId: "generated",
+        },
+      });
+    });
+
+    it("should reject fields colliding with the llm key", () => {
+      const registry = createRegistry({
+        discriminator: { original: "kind", llm: "type" },
+      });
+
+      expect(() => registry.register(orderSchema)).toThrow(
+        "Field 'type' of 'order' collides with the discriminator of the llm repo",
+      );
+      expect(registry.original.factory("order")).toBeNull();
+    });
+
+    it("should name tools and dispatch calls by the llm key", () => {
+      const registry = createRegistry({ discriminator });
+      registry.register(refundSchema);
+
+      const [tool] = registry.tools("anthropic");
+      expect(tool?.name).toBe("refund");
+      expect(tool?.input_schema.properties).not.toHaveProperty("category");
+
+      const result = registry.dispatchToolCall({
+        name: "refund",
+        input: { type: "partial", amount: 5 },
+      });
+      expect(result.success && result.data).toEqual({
+        category: "refund",
+        type: "partial",
+        amount: 5,
+      });
+    });
+
+    it("should name the schema in compatibility reports", () => {
+      const registry = createRegistry({ discriminator });
+      registry.register(refundSchema);
+
+      expect(registry.checkCompatibility()[0]?.typeName).toBe("refund");
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  type RegistryEvent,
+  type RegistryType,
+} from "../src/index.js";
+
+const userSchema = z.object({
+  type: z.literal("user"),
+  name: z.string(),
+  password: z.string(),
+});
+
+const teamSchema = z.object({
+  type: z.literal("team"),
+  members: z.array(z.string()),
+});
+
+describe("events", () => {
+  let registry: RegistryType;
+  let log: [string, RegistryEvent][];
+
+  beforeEach(() => {
+    registry = createRegistry({
+      globalBlacklist: [(key) => key === "password"],
+    });
+    log = [];
+    for (const event of ["register", "replace", "unregister"] as const) {
+      registry.on(event, (payload) => log.push([event, payload]));
+    }
+  });
+
+  it("should fire on register with the new schemas", () => {
+    registry.register(userSchema);
+
+    expect(log).toEqual([
+      [
+        "register",
+        {
+          name: "user",
+          original: userSchema,
+          llm: registry.llm.factory("user"),
+          previousOriginal: null,
+          previousLLM: null,
+        },
+      ],
+    ]);
+    expect(log[0]?.[1].llm?.shape).not.toHaveProperty("password");
+  });
+
+  it("should fire on replace with the old and new schemas", () => {
+    registry.register(userSchema);
+    const previousLLM = registry.llm.factory("user");
+    const replacement = userSchema.extend({ email: z.string() });
+    registry.register(replacement);
+
+    expect(log[1]).toEqual([
+      "replace",
+      {
+        name: "user",
+        original: replacement,
+        llm: registry.llm.factory("user"),
+        previousOriginal: userSchema,
+        previousLLM,
+      },
+    ]);
+  });
+
+  it("should fire on unregister", () => {
+    registry.register(userSchema);
+    const llm = registry.llm.factory("user");
+    registry.unregister("user");
+    registry.unregister("user");
+
+    expect(log.map(([event]) => event)).toEqual(["register", "unregister"]);
+    expect(log[1]?.[1]).toEqual({
+      name: "user",
+      original: null,
+      llm: null,
+      previousOriginal: userSchema,
+      previousLLM: llm,
+    });
+  });
+
+  it("should not fire for discarded or rejected registrations", () => {
+    const keepFirst = createRegistry({ onConflict: "keep-first" });
+    const listener = vi.fn();
+    keepFirst.on("replace", listener);
+
+    keepFirst.register(userSchema);
+    keepFirst.register(userSchema.extend({ email: z.string() }));
+    expect(() => keepFirst.register(z.object({ name: z.string() }))).toThrow();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should fire for every entry of registerMany after all are registered", () => {
+    const sizes: number[] = [];
+    registry.on("register", () => sizes.push(registry.original.schemas.length));
+
+    registry.registerMany([userSchema, teamSchema]);
+
+    expect(log.map(([event, { name }]) => [event, name])).toEqual([
+      ["register", "user"],
+      ["register", "team"],
+    ]);
+    expect(sizes).toEqual([2, 2]);
+  });
+
+  it("should unsubscribe", () => {
+    const listener = vi.fn();
+    const unsubscribe = registry.on("register", listener);
+
+    registry.register(userSchema);
+    unsubscribe();
+    registry.register(teamSchema);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should deliver events of listeners after the current event", () => {
+    const order: string[] = [];
+    registry.on("register", ({ name }) => {
+      order.push(`first:${name}`);
+      if (name === "user") {
+        registry.register(teamSchema);
+      }
+    });
+    registry.on("register", ({ name }) => order.push(`second:${name}`));
+
+    registry.register(userSchema);
+
+    expect(order).toEqual([
+      "first:user",
+      "second:user",
+      "first:team",
+      "second:team",
+    ]);
+  });
+
+  it("should deliver to every listener before rethrowing an error", () => {
+    const listener = vi.fn();
+    registry.on("register", () => {
+      throw new Error("listener failed");
+    });
+    registry.on("register", listener);
+
+    expect(() => registry.register(userSchema)).toThrow("listener failed");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(registry.original.factory("user")).toBe(userSchema);
+  });
+
+  it("should deliver every event of registerMany if a listener throws", () => {
+    const names: string[] = [];
+    registry.on("register", ({ name }) => {
+      names.push(name);
+      if (name === "a") {
+        throw new Error("listener failed");
+      }
+    });
+    const schemas = ["a", "b", "c"].map((name) =>
+      z.object({ type: z.literal(name) }),
+    );
+
+    expect(() => registry.registerMany(schemas)).toThrow("listener failed");
+    expect(names).toEqual(["a", "b", "c"]);
+    expect(registry.original.schemas).toHaveLength(3);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import { createRegistry, createTypedRegistry, fake } from "../src/index.js";
+
+const chartSchema = z.object({
+  type: z.literal("chart"),
+  id: z.string().uuid(),
+  title: z.string().min(3).max(40),
+  kind: z.enum(["bar", "line", "pie"]),
+  owner: z.string().email(),
+  createdAt: z.string().datetime(),
+  points: z
+    .array(
+      z.object({
+        x: z.number().int().min(0).max(10),
+        y: z.number().positive().multipleOf(0.5),
+      }),
+    )
+    .min(2)
+    .max(5),
+  color: z.string().startsWith("#").length(7).optional(),
+  legend: z.boolean().default(true),
+});
+
+const tableSchema = z.object({
+  type: z.literal("table"),
+  columns: z.array(z.string()).length(3),
+  rows: z.record(z.number().nullable()),
+  caption: z.string().nullable().optional(),
+  range: z.tuple([z.date(), z.date().min(new Date("2030-01-01"))]),
+});
+
+function createCharts() {
+  const registry = createRegistry({ profile: "openai" });
+  registry.register(chartSchema);
+  registry.register(tableSchema);
+  return registry;
+}
+
+describe("fake", () => {
+  it("should generate valid instances of the original and llm schemas", () => {
+    const registry = createCharts();
+
+    for (let seed = 0; seed < 200; seed++) {
+      expect(
+        registry.original.union.safeParse(registry.original.fake({ seed }))
+          .success,
+      ).toBe(true);
+      expect(
+        registry.llm.union.safeParse(registry.llm.fake({ seed })).success,
+      ).toBe(true);
+    }
+  });
+
+  it("should be deterministic per seed", () => {
+    const registry = createCharts();
+
+    expect(registry.original.fake({ seed: 7 })).toEqual(
+      registry.original.fake({ seed: 7 }),
+    );
+    expect(registry.original.fake({ seed: 7 })).not.toEqual(
+      registry.original.fake({ seed: 8 }),
+    );
+  });
+
+  it("should generate every type of the repo", () => {
+    const types = new Set(
+      Array.from(
+        { length: 20 },
+        (_, seed) => createCharts().llm.fake({ seed }).type,
+      ),
+    );
+
+    expect(types).toEqual(new Set(["chart", "table"]));
+  });
+
+  it("should generate the given type", () => {
+    const registry = createCharts();
+
+    expect(registry.llm.fake({ type: "table" }).type).toBe("table");
+    expect(() => registry.llm.fake({ type: "map" })).toThrow(
+      "No schema registered for type 'map'",
+    );
+  });
+
+  it("should respect the limits of strings, numbers and arrays", () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const value = fake(
+        z.object({
+          code: z.string().min(20).max(20),
+          tag: z.string().includes("x").endsWith("!").max(4),
+          exclusive: z.number().gt(1).lt(2),
+          large: z.number().int().min(5000),
+          count: z.bigint().positive().multipleOf(3n),
+          ids: z.set(z.number().int().min(0).max(3)).min(2),
+        }),
+        { seed },
+      );
+
+      expect(value.code).toHaveLength(20);
+      expect(value.tag).toMatch(/^x.{0,2}!$/);
+      expect(value.exclusive).toBeGreaterThan(1);
+      expect(value.exclusive).toBeLessThan(2);
+      expect(value.large).toBeGreaterThanOrEqual(5000);
+      expect(value.count % 3n).toBe(0n);
+      expect(value.ids.size).toBeGreaterThanOrEqual(2);
+    }
+  });
+
+  it("should respect bounds outside of the default ranges", () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const value = fake(
+        z.object({
+          year: z.number().int().min(1900).max(2100),
+          between: z.number().int().gt(2000).lt(2003),
+          negative: z.number().max(-5000),
+          before: z.date().max(new Date("1990-01-01")),
+        }),
+        { seed },
+      );
+
+      expect(value.year).toBeGreaterThanOrEqual(1900);
+      expect(value.year).toBeLessThanOrEqual(2100);
+      expect([2001, 2002]).toContain(value.between);
+      expect(value.negative).toBeLessThanOrEqual(-5000);
+      expect(value.before.getTime()).toBeLessThanOrEqual(
+        new Date("1990-01-01").getTime(),
+      );
+    }
+  });
+
+  it("should generate the optionals depending on the empty rate", () => {
+    const schema = z.object({ note: z.string().optional() });
+
+    expect(fake(schema, { emptyRate: 0 })).toHaveProperty("note");
+    expect(fake(schema, { emptyRate: 1 })).toEqual({});
+  });
+
+  it("should end recursive schemas at the maximal depth", () => {
+    interface Node {
+      name: string;
+      children: Node[];
+    }
+    const node: z.ZodType<Node> = z.lazy(() =>
+      z.object({ name: z.string(), children: z.array(node) }),
+    );
+
+    const depth = (value: Node): number =>
+      1 + Math.max(0, ...value.children.map(depth));
+
+    for (let seed = 0; seed < 20; seed++) {
+      expect(depth(fake(node, { seed, maxDepth: 2 }))).toBeLessThanOrEqual(3);
+    }
+  });
+
+  it("should retry refinements", () => {
+    const even = z
+      .number()
+      .int()
+      .refine((value) => value % 2 === 0);
+
+    expect(Math.abs(fake(even)) % 2).toBe(0);
+    expect(() =>
+      fake(z.object({ never: z.string().refine(() => false) })),
+    ).toThrow("Can not generate a value passing the refinement at 'never'");
+  });
+
+  it("should throw for patterns", () => {
+    expect(() =>
+      fake(z.object({ codes: z.array(z.string().regex(/^[A-Z]+$/)).min(1) })),
+    ).toThrow("Can not generate a string matching /^[A-Z]+$/ at 'codes[]'");
+  });
+
+  it("should type the instances of a typed registry", () => {
+    const registry = createTypedRegistry().register(chartSchema);
+
+    expectTypeOf(registry.original.fake()).toEqualTypeOf<
+      z.input<typeof chartSchema>
+    >();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  formatFeedback,
+  type RegistryType,
+} from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string().min(1),
+  color: z.enum(["red", "green", "blue"]),
+  points: z.array(z.object({ x: z.number(), y: z.number() })),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  slices: z.array(z.number()),
+});
+
+describe("feedback", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(lineChartSchema);
+    registry.register(pieChartSchema);
+  });
+
+  it("should return null for valid output", () => {
+    expect(
+      registry.feedback({ type: "pie_chart", title: "Share", slices: [1] }),
+    ).toBeNull();
+  });
+
+  it("should list the problems of the detected type", () => {
+    expect(
+      registry.feedback({
+        type: "line_chart",
+        title: "",
+        color: "Red",
+        points: [{ x: "1", y: 2 }, { x: 1 }],
+      }),
+    ).toBe(
+      [
+        'The output is not a valid "line_chart". Fix the following problems and answer with the complete corrected JSON:',
+        "- title: String must contain at least 1 character(s)",
+        '- color: Invalid value "Red", allowed values: "red", "green", "blue"',
+        "- points[0].x: Expected number, received string",
+        "- points[1].y: Required field is missing, expected number",
+      ].join("\n"),
+    );
+  });
+
+  it("should list the allowed types for an invalid discriminator", () => {
+    expect(registry.feedback({ type: "Line Chart" })).toBe(
+      'The field "type" has the unknown value "Line Chart". Set it to one of: "line_chart", "pie_chart". Did you mean "line_chart"?',
+    );
+    expect(registry.feedback({ title: "Sales" })).toBe(
+      'The field "type" is missing. Set it to one of: "line_chart", "pie_chart".',
+    );
+    expect(registry.feedback([])).toBe(
+      'The output must be a JSON object with the field "type" set to one of: "line_chart", "pie_chart".',
+    );
+  });
+
+  it("should describe nested literals and unknown keys", () => {
+    const registry = createRegistry();
+    registry.register(
+      z.object({
+        type: z.literal("card"),
+        header: z.object({ kind: z.literal("title") }).strict(),
+      }),
+    );
+
+    expect(
+      formatFeedback(registry.original, {
+        type: "card",
+        header: { kind: "subtitle", text: "a" },
+      })
+        ?.split("\n")
+        .slice(1),
+    ).toEqual([
+      '- header.kind: Must be exactly "title"',
+      '- header: Remove the unknown fields "text"',
+    ]);
+  });
+
+  it("should cut the problems to the token budget", () => {
+    const output = {
+      type: "pie_chart",
+      title: "Share",
+      slices: Array.from({ length: 20 }, String),
+    };
+
+    const full = registry.feedback(output)!;
+    expect(full.split("\n")).toHaveLength(21);
+
+    const cut = registry.feedback(output, { maxTokens: 60 })!;
+    expect(Math.ceil(cut.length / 4)).toBeLessThanOrEqual(60);
+    expect(cut.split("\n").at(-1)).toMatch(/^- \.\.\. and \d+ more problems$/);
+
+    const counted = registry.feedback(output, {
+      maxTokens: 3,
+      countTokens: (text) => text.split("\n").length,
+    })!;
+    expect(counted.split("\n")).toEqual([
+      expect.stringContaining("The output is not a valid"),
+      "- slices[0]: Expected number, received string",
+      "- ... and 19 more problems",
+    ]);
+  });
+
+  it("should keep every feedback within a small token budget", () => {
+    const outputs = [
+      { type: "pie_chart", title: "Share", slices: ["1", "2"] },
+      { type: "Line Chart" },
+      "line_chart",
+    ];
+
+    for (const maxTokens of [0, 5, 10, 20]) {
+      for (const output of outputs) {
+        const feedback = registry.feedback(output, { maxTokens })!;
+        expect(Math.ceil(feedback.length / 4)).toBeLessThanOrEqual(maxTokens);
+      }
+    }
+    expect(registry.feedback(outputs[0], { maxTokens: 10 })).toBe(
+      'The output is not a valid "pie_chart".',
+    );
+  });
+});
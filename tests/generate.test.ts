@@ -0,0 +1,231 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  createTypedRegistry,
+  FakeModelClient,
+  GenerationError,
+  type GenerateOptions,
+} from "../src/index.js";
+
+const noteSchema = z.object({
+  type: z.literal("note"),
+  id: z.string(),
+  tenant: z.string(),
+  text: z.string(),
+  pinned: z.boolean().default(false),
+});
+
+const taskSchema = z.object({
+  type: z.literal("task"),
+  title: z.string(),
+  priority: z.enum(["low", "high"]),
+});
+
+function createNotes() {
+  const registry = createRegistry({
+    profile: "openai",
+    globalBlacklist: [(key) => key === "id" || key === "tenant"],
+    providers: {
+      id: () => "note-1",
+      tenant: ({ context }) =>
+        (context as { tenant: string } | undefined)?.tenant,
+    },
+  });
+  registry.register(noteSchema);
+  registry.register(taskSchema);
+  return registry;
+}
+
+const options: GenerateOptions<{ tenant: string }> = {
+  backoff: () => 0,
+  context: { tenant: "acme" },
+};
+
+const note = JSON.stringify({ type: "note", text: "Call Ada", pinned: null });
+
+describe("generate", () => {
+  it("should hydrate a valid answer", async () => {
+    const client = new FakeModelClient([note]);
+
+    const result = await createNotes().generate(client, "Remind me", {
+      ...options,
+      system: "You take notes",
+    });
+
+    expect(result).toEqual({
+      success: true,
+      type: "note",
+      data: {
+        type: "note",
+        id: "note-1",
+        tenant: "acme",
+        text: "Call Ada",
+        pinned: false,
+      },
+      attempts: 1,
+    });
+    expect(client.requests).toHaveLength(1);
+    expect(client.requests[0]!.messages).toEqual([
+      { role: "system", content: "You take notes" },
+      { role: "user", content: "Remind me" },
+    ]);
+    expect(client.requests[0]!.schema).toMatchObject({
+      type: "object",
+      required: ["output"],
+    });
+  });
+
+  it("should accept answers wrapped in the root object", async () => {
+    const client = new FakeModelClient([
+      JSON.stringify({ output: JSON.parse(note) }),
+    ]);
+
+    const result = await createNotes().generate(client, "Remind me", options);
+
+    expect(result).toMatchObject({ success: true, type: "note" });
+  });
+
+  it("should reprompt with feedback", async () => {
+    const invalid = JSON.stringify({ type: "task", title: "Call Ada" });
+    const client = new FakeModelClient([
+      "Sure, here you go",
+      invalid,
+      JSON.stringify({ type: "task", title: "Call Ada", priority: "high" }),
+    ]);
+
+    const result = await createNotes().generate(client, "Remind me", options);
+
+    expect(result.success && result.attempts).toBe(3);
+    expect(client.requests.map(({ attempt }) => attempt)).toEqual([1, 2, 3]);
+
+    const messages = client.requests[2]!.messages;
+    expect(messages.slice(1, 3)).toEqual([
+      { role: "assistant", content: "Sure, here you go" },
+      {
+        role: "user",
+        content: expect.stringMatching(
+          /^Output is not valid JSON: .*\. Answer with a single JSON object\.$/,
+        ),
+      },
+    ]);
+    expect(messages.slice(3)).toEqual([
+      { role: "assistant", content: invalid },
+      {
+        role: "user",
+        content:
+          'The output is not a valid "task". Fix the following problems and answer with the complete corrected JSON:\n' +
+          "- priority: Required field is missing, expected 'low' | 'high'",
+      },
+    ]);
+  });
+
+  it("should retry errors of the client with backoff", async () => {
+    const delays: number[] = [];
+    const client = new FakeModelClient([
+      new Error("rate limited"),
+      new Error("overloaded"),
+      note,
+    ]);
+
+    const result = await createNotes().generate(client, "Remind me", {
+      ...options,
+      backoff: (retry) => {
+        delays.push(retry);
+        return 1;
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(delays).toEqual([1, 2]);
+    expect(client.requests[2]!.messages).toHaveLength(1);
+  });
+
+  it("should fail once the retries are used up", async () => {
+    const client = new FakeModelClient(["{}", "{}"]);
+
+    const result = await createNotes().generate(client, "Remind me", {
+      ...options,
+      retries: 1,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(GenerationError);
+      expect(result.error.message).toBe(
+        "Generation failed after 2 attempts: No schema registered for type 'undefined'",
+      );
+      expect(result.error.attempts).toBe(2);
+      expect(result.error.errors).toHaveLength(2);
+    }
+  });
+
+  it("should not retry failed hydrations", async () => {
+    const client = new FakeModelClient([note, note]);
+
+    const result = await createNotes().generate(client, "Remind me", {
+      backoff: () => 0,
+    });
+
+    expect(!result.success && result.error.attempts).toBe(1);
+    expect(client.requests).toHaveLength(1);
+  });
+
+  it("should compute answers from the request", async () => {
+    const registry = createRegistry();
+    registry.register(taskSchema);
+    const client = new FakeModelClient([
+      ({ schema }) =>
+        JSON.stringify({
+          type: "task",
+          title: String(Object.keys(schema.properties ?? {})),
+          priority: "low",
+        }),
+    ]);
+
+    const result = await registry.generate(client, "Plan", options);
+
+    expect(result.success && result.data.title).toBe("title,priority,type");
+    await expect(client.complete(client.requests[0]!)).rejects.toThrow(
+      "No response left for request 2 of the fake client",
+    );
+  });
+
+  it("should type the result with the original schemas", async () => {
+    const registry = createTypedRegistry({ profile: "openai" })
+      .register(noteSchema, ["id", "tenant"])
+      .register(taskSchema);
+    const client = new FakeModelClient([
+      JSON.stringify({ type: "task", title: "Plan", priority: "low" }),
+    ]);
+
+    const result = await registry.generate(client, "Plan", {
+      backoff: () => 0,
+    });
+
+    if (result.success && result.data.type === "note") {
+      expectTypeOf(result.data.tenant).toEqualTypeOf<string>();
+    }
+    expect(result.success && result.data).toEqual({
+      type: "task",
+      title: "Plan",
+      priority: "low",
+    });
+  });
+
+  it("should fail without schemas for the llm repo", async () => {
+    const registry = createRegistry();
+    registry.register(taskSchema, [], { ignoreLLM: true });
+    const client = new FakeModelClient([]);
+
+    const result = await registry.generate(client, "Plan my day", options);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatchObject({
+      message: "Generation failed: no schema registered for the llm repo",
+      attempts: 0,
+      errors: [],
+    });
+    expect(client.requests).toEqual([]);
+  });
+});
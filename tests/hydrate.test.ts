@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createRegistry, HydrationError } from "../src/index.js";
+
+describe("hydrate", () => {
+  const orderSchema = z.object({
+    type: z.literal("order"),
+    id: z.string().uuid(),
+    tenantId: z.string(),
+    createdAt: z.date(),
+    title: z.string(),
+    status: z.enum(["open", "closed"]).default("open"),
+    note: z.string().optional(),
+    items: z.array(
+      z.object({
+        id: z.number(),
+        name: z.string(),
+      }),
+    ),
+  });
+
+  const hidden = ["id", "tenantId", "createdAt"];
+
+  function createOrderRegistry() {
+    let nextItemId = 1;
+    const registry = createRegistry({
+      nullableOptionals: true,
+      globalBlacklist: [(key) => hidden.includes(key)],
+      providers: {
+        id: () => "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+        createdAt: () => new Date(0),
+      },
+    });
+    registry.register(orderSchema, undefined, {
+      providers: {
+        tenantId: ({ context }) => (context as { tenant: string }).tenant,
+        "items[].id": () => nextItemId++,
+      },
+    });
+    return registry;
+  }
+
+  it("should fill blacklisted fields from the providers", () => {
+    const registry = createOrderRegistry();
+    const output = registry.llm.factory("order")!.parse({
+      type: "order",
+      title: "Groceries",
+      status: null,
+      note: null,
+      items: [{ name: "Milk" }, { name: "Bread" }],
+    });
+
+    const result = registry.hydrate(output, { tenant: "acme" });
+
+    expect(result.success).toBe(true);
+    expect(result.success && result.data).toEqual({
+      type: "order",
+      id: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+      tenantId: "acme",
+      createdAt: new Date(0),
+      title: "Groceries",
+      status: "open",
+      items: [
+        { id: 1, name: "Milk" },
+        { id: 2, name: "Bread" },
+      ],
+    });
+  });
+
+  it("should pass path and type name to providers", () => {
+    const calls: string[] = [];
+    const registry = createRegistry({
+      providers: {
+        "meta.owner": ({ path, typeName }) => {
+          calls.push(`${typeName}:${path.join("/")}`);
+          return "system";
+        },
+      },
+    });
+    registry.register(
+      z.object({
+        type: z.literal("doc"),
+        meta: z.object({ owner: z.string(), title: z.string() }),
+      }),
+    );
+
+    const result = registry.hydrate({ type: "doc", meta: { title: "Hello" } });
+
+    expect(result.success && result.data.meta).toEqual({
+      owner: "system",
+      title: "Hello",
+    });
+    expect(calls).toEqual(["doc:meta/owner"]);
+  });
+
+  it("should not overwrite fields present in the output", () => {
+    const registry = createOrderRegistry();
+
+    const result = registry.hydrate(
+      {
+        type: "order",
+        id: "00000000-0000-4000-8000-000000000000",
+        title: "Groceries",
+        items: [{ id: 42, name: "Milk" }],
+      },
+      { tenant: "acme" },
+    );
+
+    expect(result.success && result.data.id).toBe(
+      "00000000-0000-4000-8000-000000000000",
+    );
+    expect(result.success && result.data.items).toEqual([
+      { id: 42, name: "Milk" },
+    ]);
+  });
+
+  it("should return a structured error for invalid outputs", () => {
+    const registry = createRegistry();
+    registry.register(orderSchema);
+
+    const result = registry.hydrate({ type: "order", title: 42, items: [] });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(HydrationError);
+      expect(result.error.typeName).toBe("order");
+      expect(result.error.issues.map((issue) => issue.path[0])).toEqual([
+        "id",
+        "tenantId",
+        "createdAt",
+        "title",
+      ]);
+    }
+  });
+
+  it("should return an error for unknown types", () => {
+    const registry = createOrderRegistry();
+
+    const result = registry.hydrate({ type: "invoice" });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toBe(
+        "No schema registered for type 'invoice'",
+      );
+      expect(result.error.typeName).toBe("invoice");
+      expect(result.error.issues).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  toJSONSchema,
+  type JSONSchema,
+  type RegistryType,
+} from "../src/index.js";
+
+const point = z.object({ x: z.number(), y: z.number() });
+
+const lineChartSchema = z
+  .object({
+    type: z.literal("line_chart"),
+    title: z.string().min(1).describe("Title of the chart"),
+    start: point,
+    end: point,
+    points: z.array(point).max(100),
+    lineColor: z.string().optional(),
+  })
+  .describe("A line chart for trends over time");
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  data: z.array(
+    z.object({
+      label: z.string(),
+      value: z.number().int().nonnegative(),
+      color: z.string().optional(),
+    }),
+  ),
+  legend: z.enum(["top", "bottom"]).default("top"),
+});
+
+function objects(schema: unknown): JSONSchema[] {
+  const found: JSONSchema[] = [];
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (typeof node === "object" && node !== null) {
+      if ((node as JSONSchema).type === "object") {
+        found.push(node as JSONSchema);
+      }
+      Object.values(node).forEach(walk);
+    }
+  };
+  walk(schema);
+  return found;
+}
+
+describe("JSON schema export", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(lineChartSchema);
+    registry.register(pieChartSchema);
+  });
+
+  it("should export the llm union", () => {
+    expect(registry.llm.toJSONSchema()).toMatchSnapshot();
+  });
+
+  it("should export the llm enum", () => {
+    expect(registry.llm.toJSONSchema("enum")).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "string",
+      enum: ["line_chart", "pie_chart"],
+    });
+  });
+
+  it("should export a single schema", () => {
+    expect(registry.llm.toJSONSchema({ type: "pie_chart" })).toMatchSnapshot();
+  });
+
+  it("should export the original schemas with optionals and defaults", () => {
+    const schema = registry.original.toJSONSchema({ type: "pie_chart" });
+    expect(schema.required).toEqual(["type", "title", "data"]);
+    expect((schema.properties as Record<string, JSONSchema>).legend).toEqual({
+      type: "string",
+      enum: ["top", "bottom"],
+    });
+  });
+
+  it("should export function defaults the same on every call", () => {
+    const stamped = createRegistry();
+    stamped.register(
+      z.object({
+        type: z.literal("event"),
+        id: z.string().default(() => crypto.randomUUID()),
+      }),
+    );
+
+    expect(stamped.original.toJSONSchema({ type: "event" })).toEqual(
+      stamped.original.toJSONSchema({ type: "event" }),
+    );
+  });
+
+  it("should throw for unknown types", () => {
+    expect(() => registry.llm.toJSONSchema({ type: "bar_chart" })).toThrow(
+      "No schema registered for type 'bar_chart'",
+    );
+  });
+
+  it("should forbid additional properties on every object", () => {
+    const all = objects(registry.llm.toJSONSchema());
+    expect(all.length).toBeGreaterThan(0);
+    for (const object of all) {
+      expect(object.additionalProperties).toBe(false);
+    }
+  });
+
+  it("should move structurally identical objects to $defs", () => {
+    const schema = registry.llm.toJSONSchema({ type: "line_chart" });
+    const properties = schema.properties as Record<string, JSONSchema>;
+
+    expect(Object.keys(schema.$defs as object)).toEqual(["Start"]);
+    expect(properties.start).toEqual({ $ref: "#/$defs/Start" });
+    expect(properties.end).toEqual({ $ref: "#/$defs/Start" });
+    expect(properties.points).toEqual({
+      type: "array",
+      items: { $ref: "#/$defs/Start" },
+      maxItems: 100,
+    });
+  });
+
+  it("should produce identical output for identical registries", () => {
+    const other = createRegistry();
+    other.register(lineChartSchema);
+    other.register(pieChartSchema);
+
+    expect(JSON.stringify(other.llm.toJSONSchema())).toBe(
+      JSON.stringify(registry.llm.toJSONSchema()),
+    );
+  });
+
+  it("should reference recursive schemas", () => {
+    interface Category {
+      name: string;
+      children: Category[];
+    }
+    const category: z.ZodType<Category> = z.lazy(() =>
+      z.object({ name: z.string(), children: z.array(category) }),
+    );
+
+    expect(
+      toJSONSchema(z.object({ type: z.literal("tree"), root: category })),
+    ).toMatchSnapshot();
+  });
+
+  it("should convert nullables, tuples and literals", () => {
+    expect(
+      toJSONSchema(
+        z.object({
+          note: z.string().nullable(),
+          pair: z.tuple([z.string(), z.number()]),
+          flag: z.literal(true),
+          score: z.number().gt(0).lte(10),
+          id: z.string().uuid(),
+        }),
+      ),
+    ).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import {
+  checkCompatibility,
+  createRegistry,
+  createTypedRegistry,
+  openaiProfile,
+  toJSONSchema,
+} from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string(),
+  smooth: z.boolean().optional(),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+});
+
+const tableSchema = z.object({
+  type: z.literal("table"),
+  rows: z.number(),
+});
+
+function createDashboard() {
+  const registry = createRegistry({ profile: "openai" });
+  registry.register(lineChartSchema);
+  registry.register(pieChartSchema);
+  registry.register(tableSchema);
+  return registry;
+}
+
+const line = { type: "line_chart", title: "Sales" };
+const pie = { type: "pie_chart", title: "Shares" };
+const table = { type: "table", rows: 3 };
+
+describe("list", () => {
+  it("should wrap a list of the union in an object", () => {
+    const schema = createDashboard().original.list();
+
+    expect(schema.parse({ items: [line, pie, line] })).toEqual({
+      items: [line, pie, line],
+    });
+    expect(schema.safeParse([line]).success).toBe(false);
+    expect(schema.safeParse({ items: [{ type: "map" }] }).success).toBe(false);
+  });
+
+  it("should use the given key", () => {
+    const schema = createDashboard().llm.list({ key: "charts" });
+
+    expect(Object.keys(schema.shape)).toEqual(["charts"]);
+  });
+
+  it("should limit the number of items", () => {
+    const schema = createDashboard().original.list({ min: 1, max: 2 });
+
+    expect(schema.safeParse({ items: [] }).success).toBe(false);
+    expect(schema.safeParse({ items: [line, pie] }).success).toBe(true);
+    expect(schema.safeParse({ items: [line, pie, table] }).success).toBe(false);
+  });
+
+  it("should limit the number of items by type", () => {
+    const schema = createDashboard().original.list({
+      perType: { pie_chart: { max: 1 }, table: { min: 1 } },
+    });
+
+    expect(schema.safeParse({ items: [table, pie] }).success).toBe(true);
+    const result = schema.safeParse({ items: [pie, pie] });
+    expect(
+      result.success
+        ? []
+        : result.error.issues.map(({ path, message }) => ({ path, message })),
+    ).toEqual([
+      {
+        path: ["items", 1],
+        message: "At most 1 item of type 'pie_chart' allowed",
+      },
+      {
+        path: ["items"],
+        message: "At least 1 item of type 'table' required",
+      },
+    ]);
+  });
+
+  it("should allow at most one item of every type with unique types", () => {
+    const schema = createDashboard().original.list({ uniqueTypes: true });
+
+    expect(schema.safeParse({ items: [line, pie, table] }).success).toBe(true);
+    expect(schema.safeParse({ items: [line, line] }).success).toBe(false);
+  });
+
+  it("should reject unknown types and limits which can not be satisfied", () => {
+    const { original } = createDashboard();
+
+    expect(() => original.list({ perType: { map: { max: 1 } } })).toThrow(
+      "No schema registered for type 'map'",
+    );
+    expect(() => original.list({ min: 3, max: 2 })).toThrow(
+      "At least 3 items and at most 2 items in the list can not be satisfied",
+    );
+    expect(() =>
+      original.list({ uniqueTypes: true, perType: { table: { min: 2 } } }),
+    ).toThrow(
+      "At least 2 items and at most 1 item of type 'table' can not be satisfied",
+    );
+    expect(() =>
+      original.list({
+        perType: { table: { min: 2 }, pie_chart: { min: 1 } },
+        max: 2,
+      }),
+    ).toThrow(
+      "At least 3 items and at most 2 items in the list can not be satisfied",
+    );
+  });
+
+  it("should export a JSON schema with an object at the root", () => {
+    const schema = toJSONSchema(
+      createDashboard().llm.list({
+        min: 1,
+        uniqueTypes: true,
+        perType: { table: { min: 1 } },
+      }),
+    );
+
+    expect(schema.type).toBe("object");
+    expect(schema.required).toEqual(["items"]);
+    expect(schema.additionalProperties).toBe(false);
+    const items = (schema.properties as Record<string, Record<string, unknown>>)
+      .items!;
+    expect(items).toMatchObject({
+      description:
+        "Exactly 1 item of type 'table'. At most 1 item of type 'line_chart'. At most 1 item of type 'pie_chart'.",
+      type: "array",
+      minItems: 1,
+      maxItems: 3,
+    });
+    expect((items.items as Record<string, unknown>).anyOf).toHaveLength(3);
+  });
+
+  it("should be compatible with the profile of the llm repo", () => {
+    const { llm, original } = createDashboard();
+    const schema = llm.list({ perType: { pie_chart: { max: 1 } } });
+
+    expect(checkCompatibility(schema, openaiProfile).issues).toEqual([]);
+    expect(schema.safeParse({ items: [], extra: 1 }).success).toBe(false);
+    expect(original.list().safeParse({ items: [], extra: 1 }).success).toBe(
+      true,
+    );
+  });
+
+  it("should build the list of a repo with a single schema", () => {
+    const registry = createRegistry();
+    registry.register(tableSchema);
+
+    expect(registry.llm.list().parse({ items: [table] })).toEqual({
+      items: [table],
+    });
+  });
+
+  it("should type the list of a typed registry", () => {
+    const registry = createTypedRegistry()
+      .register(lineChartSchema)
+      .register(pieChartSchema);
+
+    const schema = registry.original.list({ key: "charts" });
+
+    expectTypeOf<z.infer<typeof schema>>().toEqualTypeOf<{
+      charts: (
+        | { type: "line_chart"; title: string; smooth?: boolean | undefined }
+        | { type: "pie_chart"; title: string }
+      )[];
+    }>();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  createTypedRegistry,
+  MatchError,
+  type RegistryType,
+} from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string(),
+  points: z.array(z.number()),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  slices: z.array(z.number()),
+  showLegend: z.boolean().optional(),
+});
+
+const lineChart = { type: "line_chart", title: "Sales", points: [1, 2] };
+
+describe("match", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(lineChartSchema);
+    registry.register(pieChartSchema);
+  });
+
+  it("should call the handler of the type with the parsed payload", () => {
+    const result = registry.match(
+      { ...lineChart, unknown: true },
+      {
+        line_chart: (chart) => chart,
+        pie_chart: () => null,
+      },
+    );
+
+    expect(result).toEqual(lineChart);
+  });
+
+  it("should return the result of async handlers", async () => {
+    const result = registry.match(lineChart, {
+      line_chart: async ({ points }) => (points as number[]).length,
+      pie_chart: async () => 0,
+    });
+
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toBe(2);
+  });
+
+  it("should throw synchronously for async handlers", async () => {
+    const handlers = {
+      line_chart: async () => {
+        throw new Error("render failed");
+      },
+    };
+
+    const pieChart = { type: "pie_chart", title: "Shares", slices: [1] };
+
+    expect(() => registry.match(pieChart, handlers)).toThrow(MatchError);
+    await expect(registry.match(lineChart, handlers)).rejects.toThrow(
+      "render failed",
+    );
+  });
+
+  it("should pass unknown types to the fallback", () => {
+    const output = { type: "bar_chart", bars: [] };
+
+    expect(registry.match(output, {}, (unknown) => unknown.type)).toBe(
+      "bar_chart",
+    );
+    expect(() => registry.match(output, {})).toThrow(
+      new MatchError("No schema registered for type 'bar_chart'", "bar_chart"),
+    );
+  });
+
+  it("should throw for invalid payloads and missing handlers", () => {
+    expect(() =>
+      registry.match(
+        { type: "pie_chart", title: "Share", slices: [1] },
+        { line_chart: () => 1 },
+        () => 0,
+      ),
+    ).toThrow("No handler for type 'pie_chart'");
+
+    try {
+      registry.match(
+        { type: "line_chart", title: "Sales" },
+        { line_chart: () => 1 },
+      );
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MatchError);
+      expect((error as MatchError).typeName).toBe("line_chart");
+      expect((error as MatchError).issues[0]?.path).toEqual(["points"]);
+    }
+  });
+
+  it("should validate against the llm schema", () => {
+    expect(() =>
+      registry.match(
+        { type: "pie_chart", title: "Share", slices: [1] },
+        { line_chart: () => 1, pie_chart: () => 2 },
+      ),
+    ).toThrow("Invalid output for type 'pie_chart'");
+  });
+
+  it("should require a handler for every type of a typed registry", () => {
+    const typed = createTypedRegistry()
+      .register(lineChartSchema)
+      .register(pieChartSchema);
+
+    const result = typed.match(lineChart, {
+      line_chart: ({ points }) => points,
+      pie_chart: ({ showLegend }) => showLegend,
+    });
+    expectTypeOf(result).toEqualTypeOf<number[] | boolean>();
+    expect(result).toEqual([1, 2]);
+
+    const withFallback = typed.match(
+      { type: "bar_chart" },
+      { line_chart: () => 1, pie_chart: () => 2 },
+      () => "unknown" as const,
+    );
+    expectTypeOf(withFallback).toEqualTypeOf<number | "unknown">();
+
+    // @ts-expect-error the handler of pie charts is missing
+    typed.match(lineChart, { line_chart: () => 1 });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import { createRegistry, type RegistryType } from "../src/index.js";
+
+function chart(name: string) {
+  return z.object({ type: z.literal(name), title: z.string() });
+}
+
+describe("memoization", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(chart("line_chart"));
+    registry.register(chart("pie_chart"));
+  });
+
+  it("should return the identical union and enum between mutations", () => {
+    expect(registry.llm.union).toBe(registry.llm.union);
+    expect(registry.llm.enum).toBe(registry.llm.enum);
+    expect(registry.original.union).toBe(registry.original.union);
+    expect(registry.original.enum).toBe(registry.original.enum);
+  });
+
+  it("should rebuild after a schema was added", () => {
+    const union = registry.llm.union;
+    const enumType = registry.llm.enum;
+
+    registry.register(chart("bar_chart"));
+
+    expect(registry.llm.union).not.toBe(union);
+    expect(registry.llm.union.options).toHaveLength(3);
+    expect(registry.llm.enum).not.toBe(enumType);
+    expect(registry.llm.enum.options).toContain("bar_chart");
+  });
+
+  it("should rebuild after a schema was replaced or removed", () => {
+    const union = registry.original.union;
+    registry.register(chart("pie_chart").extend({ slices: z.number() }));
+    const replaced = registry.original.union;
+
+    expect(replaced).not.toBe(union);
+    expect(replaced.optionsMap.get("pie_chart")?.shape).toHaveProperty(
+      "slices",
+    );
+
+    registry.register(chart("bar_chart"));
+    registry.unregister("bar_chart");
+    expect(registry.original.union).not.toBe(replaced);
+    expect(registry.original.union.options).toHaveLength(2);
+  });
+
+  it("should rebuild after the current version changed", () => {
+    registry.register(chart("pie_chart"), undefined, { version: 2 });
+    const union = registry.original.union;
+
+    registry.register(chart("pie_chart"), undefined, {
+      version: 1,
+      current: true,
+    });
+    expect(registry.original.union).not.toBe(union);
+  });
+
+  it("should not cache failures", () => {
+    registry.unregister("pie_chart");
+    expect(() => registry.llm.union).toThrow();
+
+    registry.register(chart("pie_chart"));
+    expect(registry.llm.union.options).toHaveLength(2);
+  });
+
+  it("should memoize the union of scopes while the selection is unchanged", () => {
+    const scope = registry.scope(["line_chart", "pie_chart"]);
+    const union = scope.llm.union;
+
+    expect(scope.llm.union).toBe(union);
+    registry.register(chart("bar_chart"));
+    expect(scope.llm.union).toBe(union);
+
+    registry.register(chart("pie_chart"));
+    expect(scope.llm.union).not.toBe(union);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createRegistry, type SchemaMetadata } from "../src/index.js";
+
+const lineChartSchema = z
+  .object({
+    type: z.literal("line_chart"),
+    title: z.string(),
+    points: z.array(z.object({ x: z.number(), y: z.number() })),
+    color: z.string().optional(),
+  })
+  .describe("A line chart");
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  slices: z.array(z.number()),
+});
+
+const lineChartMetadata: SchemaMetadata = {
+  description: "Line chart of one series",
+  chooseWhen: "the data is a time series or shows a trend",
+  tags: ["chart"],
+  owner: "analytics",
+  examples: [{ type: "line_chart", title: "Sales", points: [{ x: 1, y: 2 }] }],
+};
+
+describe("metadata", () => {
+  it("should store the metadata alongside both repos", () => {
+    const registry = createRegistry();
+    registry.register(lineChartSchema, undefined, {
+      metadata: lineChartMetadata,
+    });
+    registry.register(pieChartSchema);
+
+    expect(registry.original.metadata("line_chart")).toEqual(lineChartMetadata);
+    expect(registry.llm.metadata("line_chart")).toEqual(lineChartMetadata);
+    expect(registry.llmFor("openai").metadata("line_chart")).toEqual(
+      lineChartMetadata,
+    );
+    expect(registry.original.metadata("pie_chart")).toEqual({});
+    expect(registry.original.metadata("bar_chart")).toBeNull();
+  });
+
+  it("should store metadata per version", () => {
+    const registry = createRegistry();
+    registry.register(lineChartSchema, undefined, {
+      version: 1,
+      metadata: { owner: "analytics" },
+    });
+    registry.register(lineChartSchema, undefined, {
+      version: 2,
+      metadata: { owner: "reporting" },
+    });
+
+    expect(registry.original.metadata("line_chart")?.owner).toBe("reporting");
+    expect(registry.original.metadata("line_chart", 1)?.owner).toBe(
+      "analytics",
+    );
+  });
+
+  it("should remove the metadata with the schema", () => {
+    const registry = createRegistry();
+    registry.register(lineChartSchema, undefined, {
+      metadata: lineChartMetadata,
+    });
+    registry.unregister("line_chart");
+
+    expect(registry.original.metadata("line_chart")).toBeNull();
+  });
+
+  it("should reject examples not matching the original schema", () => {
+    const registry = createRegistry();
+
+    expect(() =>
+      registry.register(lineChartSchema, undefined, {
+        metadata: {
+          examples: [
+            lineChartMetadata.examples![0]!,
+            { type: "line_chart", title: "Sales" },
+          ],
+        },
+      }),
+    ).toThrow("Example 1 of 'line_chart' does not match the schema");
+    expect(registry.original.factory("line_chart")).toBeNull();
+
+    const result = registry.registerMany([
+      {
+        schema: pieChartSchema,
+        opts: { metadata: { examples: [{ type: "pie_chart" }] } },
+      },
+    ]);
+    expect(!result.success && result.error.issues[0]?.code).toBe(
+      "invalid_schema",
+    );
+  });
+
+  it("should describe tools with the metadata", () => {
+    const registry = createRegistry();
+    registry.register(lineChartSchema, undefined, {
+      metadata: lineChartMetadata,
+    });
+    registry.register(pieChartSchema, undefined, {
+      metadata: { chooseWhen: "the data are parts of a whole" },
+    });
+
+    expect(registry.tools("anthropic").map((tool) => tool.description)).toEqual(
+      [
+        "Line chart of one series\n\n" +
+          "Choose when: the data is a time series or shows a trend",
+        "Choose when: the data are parts of a whole",
+      ],
+    );
+  });
+});
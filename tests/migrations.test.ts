@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  MigrationError,
+  type RegistryType,
+} from "../src/index.js";
+
+const userV1 = z.object({
+  type: z.literal("user"),
+  name: z.string(),
+});
+
+const userV2 = z.object({
+  type: z.literal("user"),
+  firstName: z.string(),
+  lastName: z.string(),
+});
+
+const userV3 = z.object({
+  type: z.literal("user"),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string().email().nullable(),
+});
+
+const teamSchema = z.object({
+  type: z.literal("team"),
+  members: z.array(z.string()),
+});
+
+function splitName(previous: unknown) {
+  const [firstName = "", ...rest] = userV1.parse(previous).name.split(" ");
+  return { type: "user", firstName, lastName: rest.join(" ") };
+}
+
+describe("versioning", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(userV1, undefined, { version: 1 });
+    registry.register(userV2, undefined, { version: 2, migrate: splitName });
+    registry.register(userV3, undefined, {
+      version: 3,
+      migrate: (previous) => ({ ...userV2.parse(previous), email: null }),
+    });
+    registry.register(teamSchema);
+  });
+
+  describe("versions", () => {
+    it("should make the highest version current", () => {
+      expect(registry.original.versions("user")).toEqual([1, 2, 3]);
+      expect(registry.original.currentVersion("user")).toBe(3);
+      expect(registry.original.factory("user")).toBe(userV3);
+      expect(registry.original.factory("user", 1)).toBe(userV1);
+      expect(registry.original.factory("user", 4)).toBeNull();
+      expect(registry.llm.factory("user", 2)!.shape).toHaveProperty(
+        "firstName",
+      );
+    });
+
+    it("should use the current versions for the union", () => {
+      expect(registry.llm.union.options).toHaveLength(2);
+      expect(() =>
+        registry.llm.union.parse({ type: "user", name: "Ada Lovelace" }),
+      ).toThrow();
+      expect(
+        registry.llm.union.parse({
+          type: "user",
+          firstName: "Ada",
+          lastName: "Lovelace",
+          email: null,
+        }),
+      ).toHaveProperty("firstName", "Ada");
+    });
+
+    it("should mark a version as current", () => {
+      registry.register(userV2, undefined, { version: 2, current: true });
+
+      expect(registry.original.currentVersion("user")).toBe(2);
+      expect(registry.original.factory("user")).toBe(userV2);
+      expect(registry.llm.currentVersion("user")).toBe(2);
+      expect(registry.llmFor("anthropic").currentVersion("user")).toBe(2);
+
+      registry.register(userV3, undefined, { version: 4 });
+      expect(registry.original.currentVersion("user")).toBe(2);
+    });
+
+    it("should drop the type from the llm repo if the current version is ignored", () => {
+      const ignored = createRegistry();
+      ignored.register(userV1, undefined, { version: 1 });
+      ignored.register(teamSchema);
+      ignored.register(userV2, undefined, { version: 2, ignoreLLM: true });
+
+      expect(ignored.original.currentVersion("user")).toBe(2);
+      expect(ignored.llm.factory("user")).toBeNull();
+      expect(ignored.llmFor("anthropic").factory("user")).toBeNull();
+      expect(ignored.llm.schemas).toEqual([ignored.llm.factory("team")]);
+
+      ignored.register(userV1, undefined, { version: 1, current: true });
+      expect(ignored.llm.currentVersion("user")).toBe(1);
+      expect(
+        ignored.hydrate(ignored.llm.union.parse({ type: "user", name: "Ada" })),
+      ).toEqual({ success: true, data: { type: "user", name: "Ada" } });
+    });
+
+    it("should replace all versions without a version", () => {
+      registry.register(userV1);
+
+      expect(registry.original.versions("user")).toEqual([1]);
+      expect(registry.original.factory("user")).toBe(userV1);
+    });
+
+    it("should reject invalid versions", () => {
+      expect(() =>
+        registry.register(userV1, undefined, { version: 1.5 }),
+      ).toThrow("Version 1.5 of 'user' is not a positive integer");
+    });
+
+    it("should apply the conflict policy per version", () => {
+      const strict = createRegistry({ onConflict: "error" });
+      strict.register(userV1, undefined, { version: 1 });
+      strict.register(userV2, undefined, { version: 2 });
+
+      expect(() => strict.register(userV3, undefined, { version: 2 })).toThrow(
+        "Type 'user' version 2 is already registered",
+      );
+    });
+  });
+
+  describe("migrate", () => {
+    it("should upgrade a payload over multiple versions", () => {
+      const result = registry.migrate(
+        { type: "user", name: "Ada King Lovelace" },
+        1,
+      );
+
+      expect(result).toEqual({
+        success: true,
+        version: 3,
+        data: {
+          type: "user",
+          firstName: "Ada",
+          lastName: "King Lovelace",
+          email: null,
+        },
+      });
+    });
+
+    it("should upgrade a payload of the current version", () => {
+      const payload = {
+        type: "user",
+        firstName: "Ada",
+        lastName: "Lovelace",
+        email: "ada@example.com",
+      };
+      expect(registry.migrate(payload, 3)).toEqual({
+        success: true,
+        version: 3,
+        data: payload,
+      });
+    });
+
+    it("should migrate up to the current version only", () => {
+      registry.register(userV2, undefined, {
+        version: 2,
+        current: true,
+        migrate: splitName,
+      });
+
+      const result = registry.migrate({ type: "user", name: "Ada" }, 1);
+      expect(result.success && result.version).toBe(2);
+      expect(result.success && result.data).toEqual({
+        type: "user",
+        firstName: "Ada",
+        lastName: "",
+      });
+
+      const down = registry.migrate({ type: "user" }, 3);
+      expect(!down.success && down.error.message).toBe(
+        "Can not migrate 'user' down from version 3 to 2",
+      );
+    });
+
+    it("should fail if the payload does not match its version", () => {
+      const result = registry.migrate({ type: "user", firstName: "Ada" }, 1);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(MigrationError);
+        expect(result.error.version).toBe(1);
+        expect(result.error.issues[0]?.path).toEqual(["name"]);
+      }
+    });
+
+    it("should fail if a migration produces an invalid payload", () => {
+      registry.register(userV3, undefined, {
+        version: 3,
+        migrate: (previous) => ({
+          ...userV2.parse(previous),
+          email: "invalid",
+        }),
+      });
+
+      const result = registry.migrate({ type: "user", name: "Ada L" }, 1);
+      expect(!result.success && result.error.version).toBe(3);
+      expect(!result.success && result.error.issues[0]?.path).toEqual([
+        "email",
+      ]);
+    });
+
+    it("should fail if a migration is missing or throws", () => {
+      registry.register(userV2, undefined, { version: 2 });
+      expect(registry.migrate({ type: "user", name: "Ada" }, 1)).toMatchObject({
+        success: false,
+        error: {
+          message: "No migration registered from version 1 to 2 of 'user'",
+        },
+      });
+
+      registry.register(userV2, undefined, {
+        version: 2,
+        migrate: () => {
+          throw new Error("boom");
+        },
+      });
+      expect(registry.migrate({ type: "user", name: "Ada" }, 1)).toMatchObject({
+        success: false,
+        error: { message: "Migration to version 2 of 'user' failed: boom" },
+      });
+    });
+
+    it("should fail for unknown types and versions", () => {
+      const unknownType = registry.migrate({ type: "group" }, 1);
+      expect(!unknownType.success && unknownType.error.message).toBe(
+        "No schema registered for type 'group'",
+      );
+
+      const unknownVersion = registry.migrate({ type: "user" }, 7);
+      expect(!unknownVersion.success && unknownVersion.error.message).toBe(
+        "No version 7 registered for type 'user'",
+      );
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  OutputParseError,
+  type RegistryType,
+} from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string(),
+  smooth: z.boolean().optional(),
+  points: z.array(z.object({ x: z.number(), y: z.number() })),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  unit: z.enum(["percent", "absolute"]),
+  slices: z.tuple([z.string(), z.number().nullable()]).array(),
+});
+
+const lineChart = {
+  type: "line_chart",
+  title: "Sales",
+  smooth: true,
+  points: [{ x: 1, y: 2 }],
+};
+
+describe("parseLLMOutput", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(lineChartSchema);
+    registry.register(pieChartSchema);
+  });
+
+  it("should parse valid JSON without repairs", () => {
+    expect(registry.llm.parseLLMOutput(JSON.stringify(lineChart))).toEqual({
+      success: true,
+      data: lineChart,
+      repairs: [],
+    });
+  });
+
+  it("should extract JSON from code fences and prose", () => {
+    const fenced = registry.llm.parseLLMOutput(
+      "Here is the chart:\n```json\n" +
+        JSON.stringify(lineChart, null, 2) +
+        "\n```\nLet me know if you need more.",
+    );
+    expect(fenced.success && fenced.data).toEqual(lineChart);
+    expect(fenced.repairs.map(({ kind }) => kind)).toEqual(["extract_json"]);
+
+    const prose = registry.llm.parseLLMOutput(
+      `Sure! ${JSON.stringify(lineChart)} Hope this helps.`,
+    );
+    expect(prose.success).toBe(true);
+  });
+
+  it("should remove trailing commas outside of strings", () => {
+    const result = registry.llm.parseLLMOutput(
+      '{"type": "line_chart", "title": "a, }", "smooth": false, "points": [{"x": 1, "y": 2,},],}',
+    );
+
+    expect(result.success && result.data).toEqual({
+      type: "line_chart",
+      title: "a, }",
+      smooth: false,
+      points: [{ x: 1, y: 2 }],
+    });
+    expect(result.repairs).toEqual([
+      { kind: "trailing_commas", path: [], message: "Removed trailing commas" },
+    ]);
+  });
+
+  it("should coerce primitives the schema expects", () => {
+    const result = registry.llm.parseLLMOutput(
+      JSON.stringify({
+        type: "pie_chart",
+        title: 2024,
+        unit: "Percent",
+        slices: [
+          ["a", "12.5"],
+          ["b", null],
+        ],
+      }),
+    );
+
+    expect(result.success && result.data).toEqual({
+      type: "pie_chart",
+      title: "2024",
+      unit: "percent",
+      slices: [
+        ["a", 12.5],
+        ["b", null],
+      ],
+    });
+    expect(result.repairs.map(({ path }) => path)).toEqual([
+      ["title"],
+      ["unit"],
+      ["slices", 0, 1],
+    ]);
+
+    const booleans = registry.llm.parseLLMOutput(
+      JSON.stringify({
+        ...lineChart,
+        smooth: "TRUE",
+        points: [{ x: "1", y: 2 }],
+      }),
+    );
+    expect(booleans.success && booleans.data).toEqual(lineChart);
+  });
+
+  it("should match the discriminator against the registered types", () => {
+    for (const type of ["Line Chart", "LINE_CHART", "lineChart", "line_chrt"]) {
+      const result = registry.llm.parseLLMOutput(
+        JSON.stringify({ ...lineChart, type }),
+      );
+      expect(result.success && result.data).toEqual(lineChart);
+      expect(result.repairs).toEqual([
+        {
+          kind: "discriminator",
+          path: ["type"],
+          message: `Replaced type '${type}' with 'line_chart'`,
+        },
+      ]);
+    }
+
+    const unknown = registry.llm.parseLLMOutput(
+      JSON.stringify({ ...lineChart, type: "bar_chart" }),
+    );
+    expect(!unknown.success && unknown.error.message).toBe(
+      "No schema registered for type 'bar_chart'",
+    );
+  });
+
+  it("should only apply the enabled repairs", () => {
+    const text =
+      "```\n" + JSON.stringify({ ...lineChart, type: "Line Chart" }) + "\n```";
+
+    expect(
+      registry.llm.parseLLMOutput(text, {
+        repairs: { extract_json: false },
+      }).success,
+    ).toBe(false);
+
+    const result = registry.llm.parseLLMOutput(text, {
+      repairs: { discriminator: false },
+    });
+    expect(!result.success && result.error.typeName).toBe("Line Chart");
+    expect(result.repairs.map(({ kind }) => kind)).toEqual(["extract_json"]);
+  });
+
+  it("should fail for invalid output", () => {
+    const invalidJSON = registry.llm.parseLLMOutput("not json");
+    expect(invalidJSON.success).toBe(false);
+    expect(!invalidJSON.success && invalidJSON.error).toBeInstanceOf(
+      OutputParseError,
+    );
+    expect(!invalidJSON.success && invalidJSON.error.message).toMatch(
+      /^Output is not valid JSON: /,
+    );
+
+    expect(registry.llm.parseLLMOutput("[1, 2]")).toMatchObject({
+      success: false,
+      error: { message: "Output is not a JSON object" },
+    });
+
+    const invalid = registry.llm.parseLLMOutput(
+      JSON.stringify({ ...lineChart, points: [{ x: "one", y: 2 }] }),
+    );
+    expect(!invalid.success && invalid.error.typeName).toBe("line_chart");
+    expect(!invalid.success && invalid.error.issues[0]?.path).toEqual([
+      "points",
+      0,
+      "x",
+    ]);
+  });
+
+  it("should parse with the schemas of a scope", () => {
+    const scope = registry.scope(["pie_chart"]);
+
+    expect(scope.llm.parseLLMOutput(JSON.stringify(lineChart))).toMatchObject({
+      success: false,
+      error: { message: "No schema registered for type 'line_chart'" },
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  checkBudget,
+  checkCompatibility,
+  createRegistry,
+  formatPath,
+  IncompatibleSchemaError,
+  openaiProfile,
+  structuredOutputsProfile,
+  type ProviderName,
+} from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string(),
+  lineColor: z.string().optional(),
+  points: z.array(z.object({ x: z.number(), y: z.number() })),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  data: z.array(
+    z.object({
+      label: z.string(),
+      value: z.number(),
+      color: z.string().optional(),
+    }),
+  ),
+});
+
+function issues(schema: z.AnyZodObject, profile = openaiProfile) {
+  return checkCompatibility(schema, profile).issues.map((issue) => [
+    formatPath(issue.path),
+    issue.code,
+  ]);
+}
+
+describe("provider profiles", () => {
+  describe("building the llm repo", () => {
+    it("should use the default profile without options", () => {
+      const registry = createRegistry();
+      expect(registry.profile).toBe(structuredOutputsProfile);
+    });
+
+    it("should resolve profiles by name", () => {
+      const registry = createRegistry({ profile: "openai" });
+      expect(registry.profile).toBe(openaiProfile);
+    });
+
+    it("should throw for unknown profile names", () => {
+      expect(() =>
+        createRegistry({ profile: "unknown" as ProviderName }),
+      ).toThrow("Unknown provider profile 'unknown'");
+    });
+
+    it("should build nullable and strict schemas for openai", () => {
+      const registry = createRegistry({ profile: "openai" });
+      registry.register(lineChartSchema);
+
+      const llmSchema = registry.llm.factory("line_chart")!;
+      const output = {
+        type: "line_chart",
+        title: "Sales",
+        lineColor: null,
+        points: [{ x: 1, y: 2 }],
+      };
+
+      expect(() => llmSchema.parse(output)).not.toThrow();
+      expect(() => llmSchema.parse({ ...output, extra: true })).toThrow();
+      expect(() =>
+        llmSchema.parse({ ...output, points: [{ x: 1, y: 2, z: 3 }] }),
+      ).toThrow();
+    });
+
+    it("should prefer an explicit nullableOptionals option", () => {
+      const registry = createRegistry({
+        profile: "openai",
+        nullableOptionals: false,
+      });
+      registry.register(lineChartSchema);
+
+      const llmSchema = registry.llm.factory("line_chart")!;
+      expect(llmSchema.shape.lineColor.isNullable()).toBe(false);
+    });
+  });
+
+  describe("llmFor", () => {
+    it("should build the llm repo for another profile", () => {
+      const registry = createRegistry({ profile: "openai" });
+      registry.register(lineChartSchema);
+      registry.register(pieChartSchema);
+
+      const anthropic = registry.llmFor("anthropic");
+      const gemini = registry.llmFor("gemini");
+
+      expect(anthropic.schemas).toHaveLength(2);
+      expect(
+        anthropic.factory("line_chart")!.shape.lineColor.isNullable(),
+      ).toBe(false);
+      expect(gemini.factory("line_chart")!.shape.lineColor.isNullable()).toBe(
+        true,
+      );
+      // gemini does not require additionalProperties: false
+      expect(() =>
+        gemini.factory("pie_chart")!.parse({
+          type: "pie_chart",
+          title: "Share",
+          data: [],
+          extra: true,
+        }),
+      ).not.toThrow();
+    });
+
+    it("should return the llm repo for the own profile", () => {
+      const registry = createRegistry({ profile: "openai" });
+      expect(registry.llmFor("openai")).toBe(registry.llm);
+    });
+
+    it("should rebuild the repo after the registry changed", () => {
+      const registry = createRegistry();
+      registry.register(lineChartSchema);
+
+      const first = registry.llmFor("anthropic");
+      expect(registry.llmFor("anthropic")).toBe(first);
+
+      registry.register(pieChartSchema);
+      const second = registry.llmFor("anthropic");
+      expect(second).not.toBe(first);
+      expect(second.schemas).toHaveLength(2);
+
+      registry.unregister("pie_chart");
+      expect(registry.llmFor("anthropic").schemas).toHaveLength(1);
+    });
+
+    it("should skip schemas ignored for the llm repo", () => {
+      const registry = createRegistry();
+      registry.register(lineChartSchema, undefined, { ignoreLLM: true });
+
+      expect(registry.llmFor("openai").schemas).toEqual([]);
+    });
+  });
+
+  describe("checkCompatibility", () => {
+    it("should report unsupported string formats", () => {
+      const schema = z.object({
+        type: z.literal("link"),
+        href: z.string().url(),
+        contact: z.string().email(),
+      });
+
+      expect(issues(schema)).toEqual([["href", "unsupported_format"]]);
+      expect(issues(schema, structuredOutputsProfile)).toEqual([]);
+    });
+
+    it("should report objects allowing additional properties", () => {
+      const schema = z.object({
+        type: z.literal("settings"),
+        values: z.record(z.string()),
+        meta: z.object({ a: z.string() }).passthrough(),
+      });
+
+      expect(issues(schema)).toEqual([
+        ["values", "additional_properties"],
+        ["meta", "additional_properties"],
+      ]);
+    });
+
+    it("should report objects nested too deep", () => {
+      let nested: z.AnyZodObject = z.object({ leaf: z.string() });
+      for (let i = 0; i < 10; i++) {
+        nested = z.object({ child: nested });
+      }
+      const schema = z.object({ type: z.literal("deep"), root: nested });
+
+      const report = issues(schema);
+      expect(report).toHaveLength(1);
+      expect(report[0]?.[1]).toBe("max_depth");
+      expect(report[0]?.[0]).toBe("root" + ".child".repeat(9));
+    });
+
+    it("should report enums exceeding the limit", () => {
+      const values = Array.from({ length: 501 }, (_, i) => `value_${i}`);
+      const schema = z.object({
+        type: z.literal("choice"),
+        value: z.enum(values as [string, ...string[]]),
+      });
+
+      expect(issues(schema, openaiProfile)).toEqual([]);
+      expect(issues(schema, { ...openaiProfile, maxEnumValues: 500 })).toEqual([
+        ["", "max_enum_values"],
+      ]);
+    });
+  });
+
+  describe("checkBudget", () => {
+    const smallProfile = { ...openaiProfile, name: "small", maxProperties: 8 };
+
+    it("should sum the properties of all schemas", () => {
+      expect(checkBudget([lineChartSchema], smallProfile).compatible).toBe(
+        true,
+      );
+
+      const report = checkBudget(
+        [lineChartSchema, pieChartSchema],
+        smallProfile,
+      );
+      expect(report.compatible).toBe(false);
+      expect(report.typeName).toBeNull();
+      expect(report.issues).toEqual([
+        {
+          code: "max_properties",
+          path: [],
+          message: "13 properties exceed the limit of 8",
+        },
+      ]);
+    });
+
+    it("should check the budget of the registry", () => {
+      const registry = createRegistry({ profile: smallProfile });
+      registry.register(lineChartSchema);
+      registry.register(pieChartSchema);
+
+      expect(registry.checkBudget().compatible).toBe(false);
+      expect(registry.checkBudget("openai").compatible).toBe(true);
+    });
+
+    it("should enforce the budget when registering", () => {
+      const registry = createRegistry({
+        profile: smallProfile,
+        onIncompatible: "throw",
+      });
+      registry.register(lineChartSchema);
+
+      expect(() => registry.register(pieChartSchema)).toThrow(
+        IncompatibleSchemaError,
+      );
+      expect(() => registry.register(pieChartSchema)).toThrow(
+        "Schemas are not compatible with 'small'",
+      );
+      expect(registry.original.factory("pie_chart")).toBeNull();
+    });
+  });
+
+  describe("root object", () => {
+    it("should wrap the union if the profile requires an object at the root", () => {
+      const registry = createRegistry({ profile: "openai" });
+      registry.register(lineChartSchema);
+      registry.register(pieChartSchema);
+
+      const schema = registry.llm.toJSONSchema();
+      expect(schema).toMatchObject({
+        type: "object",
+        required: ["output"],
+        additionalProperties: false,
+      });
+      expect(
+        (schema.properties as Record<string, Record<string, unknown>>).output!
+          .anyOf,
+      ).toHaveLength(2);
+      expect(registry.llmFor("gemini").toJSONSchema().anyOf).toHaveLength(2);
+      expect(registry.original.toJSONSchema().anyOf).toHaveLength(2);
+    });
+
+    it("should parse outputs wrapped in the root object", () => {
+      const registry = createRegistry({ profile: "openai" });
+      registry.register(lineChartSchema);
+      registry.register(pieChartSchema);
+      const output = { type: "pie_chart", title: "Shares", data: [] };
+
+      expect(
+        registry.llm.parseLLMOutput(JSON.stringify({ output })),
+      ).toMatchObject({ success: true, data: output });
+      expect(registry.llm.parseLLMOutput(JSON.stringify(output))).toMatchObject(
+        { success: true, data: output },
+      );
+      expect(
+        registry.llm.createStreamParser().write('{"output": {"type": "pie_ch'),
+      ).toMatchObject({ partial: { type: "pie_ch" }, error: null });
+    });
+
+    it("should check the depth of the wrapped schemas", () => {
+      const deepProfile = { ...openaiProfile, name: "deep", maxDepth: 2 };
+
+      expect(issues(lineChartSchema, deepProfile)).toEqual([]);
+      expect(
+        checkBudget([lineChartSchema, pieChartSchema], deepProfile).issues.map(
+          (issue) => [formatPath(issue.path), issue.code, issue.message],
+        ),
+      ).toEqual([
+        [
+          "output.points[]",
+          "max_depth",
+          "objects are nested deeper than 2 levels once wrapped in the root object",
+        ],
+        [
+          "output.data[]",
+          "max_depth",
+          "objects are nested deeper than 2 levels once wrapped in the root object",
+        ],
+      ]);
+      expect(checkBudget([lineChartSchema], deepProfile).compatible).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  openaiProfile,
+  RegistrationError,
+} from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string(),
+  lineColor: z.string().optional(),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  secret: z.string(),
+});
+
+const barChartSchema = z.object({
+  type: z.literal("bar_chart"),
+  title: z.string(),
+  bars: z.array(z.number()),
+});
+
+describe("registerMany", () => {
+  it("should register all entries", () => {
+    const registry = createRegistry();
+
+    const result = registry.registerMany([
+      lineChartSchema,
+      { schema: pieChartSchema, localBlacklist: [(key) => key === "secret"] },
+      { schema: barChartSchema, opts: { ignoreLLM: true } },
+    ]);
+
+    expect(result).toEqual({
+      success: true,
+      names: ["line_chart", "pie_chart", "bar_chart"],
+    });
+    expect(registry.original.schemas).toHaveLength(3);
+    expect(registry.llm.enum.options).toEqual(["line_chart", "pie_chart"]);
+    expect(registry.llm.factory("pie_chart")!.shape).not.toHaveProperty(
+      "secret",
+    );
+  });
+
+  it("should report every invalid entry and register none", () => {
+    const registry = createRegistry();
+    registry.register(barChartSchema);
+
+    const result = registry.registerMany([
+      lineChartSchema,
+      z.object({ title: z.string() }),
+      lineChartSchema,
+      barChartSchema,
+      {
+        schema: pieChartSchema,
+        localBlacklist: [
+          () => {
+            throw new Error("filter failed");
+          },
+        ],
+      },
+    ]);
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toBeInstanceOf(RegistrationError);
+    expect(
+      result.error.issues.map(({ code, index, typeName }) => [
+        code,
+        index,
+        typeName,
+      ]),
+    ).toEqual([
+      ["missing_discriminator", 1, null],
+      ["duplicate_type", 2, "line_chart"],
+      ["already_registered", 3, "bar_chart"],
+      ["invalid_schema", 4, "pie_chart"],
+    ]);
+    expect(result.error.message).toBe(
+      "Failed to register schemas:\n" +
+        "  #1: Schema is missing the type: zod.literal('...')\n" +
+        "  #2 (line_chart): Type 'line_chart' is also registered by entry #0\n" +
+        "  #3 (bar_chart): Type 'bar_chart' is already registered\n" +
+        "  #4 (pie_chart): filter failed",
+    );
+
+    expect(registry.original.schemas).toEqual([barChartSchema]);
+    expect(registry.llm.schemas).toHaveLength(1);
+  });
+
+  it("should report incompatible schemas", () => {
+    const registry = createRegistry({
+      profile: "openai",
+      onIncompatible: "throw",
+    });
+
+    const result = registry.registerMany([
+      lineChartSchema,
+      z.object({ type: z.literal("event"), at: z.date() }),
+    ]);
+
+    expect(!result.success && result.error.issues[0]).toMatchObject({
+      code: "incompatible",
+      index: 1,
+      typeName: "event",
+    });
+    expect(registry.original.schemas).toEqual([]);
+  });
+
+  it("should check the budget of the whole batch", () => {
+    const registry = createRegistry({
+      profile: { ...openaiProfile, name: "small", maxProperties: 7 },
+      onIncompatible: "throw",
+    });
+    registry.register(lineChartSchema);
+
+    const result = registry.registerMany([pieChartSchema, barChartSchema]);
+
+    expect(!result.success && result.error.issues).toEqual([
+      {
+        code: "incompatible",
+        index: null,
+        typeName: null,
+        message: expect.stringContaining("10 properties exceed the limit of 7"),
+      },
+    ]);
+    expect(registry.original.schemas).toEqual([lineChartSchema]);
+  });
+});
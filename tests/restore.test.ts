@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import { createRegistry, type RegistryType } from "../src/index.js";
+
+describe("nullable optionals", () => {
+  let registry: RegistryType;
+
+  const lineChartSchema = z.object({
+    type: z.literal("line_chart"),
+    title: z.string(),
+    lineColor: z.string().optional(),
+    showGrid: z.boolean().default(true),
+    note: z.string().nullable().optional(),
+    series: z.array(
+      z.object({
+        label: z.string(),
+        color: z.string().optional(),
+      }),
+    ),
+  });
+
+  beforeEach(() => {
+    registry = createRegistry({ nullableOptionals: true });
+    registry.register(lineChartSchema);
+  });
+
+  describe("llm repo", () => {
+    it("should make optionals and defaults required but nullable", () => {
+      const llmSchema = registry.llm.factory("line_chart")!;
+
+      const output = {
+        type: "line_chart",
+        title: "Sales",
+        lineColor: null,
+        showGrid: null,
+        note: null,
+        series: [{ label: "2024", color: null }],
+      };
+
+      expect(() => llmSchema.parse(output)).not.toThrow();
+
+      const { lineColor: _, ...withoutLineColor } = output;
+      expect(() => llmSchema.parse(withoutLineColor)).toThrow();
+      expect(() =>
+        llmSchema.parse({ ...output, series: [{ label: "2024" }] }),
+      ).toThrow();
+    });
+
+    it("should keep required fields non nullable", () => {
+      const llmSchema = registry.llm.factory("line_chart")!;
+      expect(llmSchema.shape.title.isNullable()).toBe(false);
+      expect(llmSchema.shape.lineColor.isNullable()).toBe(true);
+      expect(llmSchema.shape.lineColor.isOptional()).toBe(false);
+    });
+
+    it("should not change the llm repo without the option", () => {
+      const plain = createRegistry();
+      plain.register(lineChartSchema);
+
+      const llmSchema = plain.llm.factory("line_chart")!;
+      expect(llmSchema.shape.lineColor.isNullable()).toBe(false);
+    });
+  });
+
+  describe("restoreOptionals", () => {
+    it("should remove nulls of optional fields and apply defaults", () => {
+      const restored = registry.restoreOptionals({
+        type: "line_chart",
+        title: "Sales",
+        lineColor: null,
+        showGrid: null,
+        note: null,
+        series: [
+          { label: "2024", color: null },
+          { label: "2025", color: "#fff" },
+        ],
+      });
+
+      expect(restored).toEqual({
+        type: "line_chart",
+        title: "Sales",
+        showGrid: true,
+        note: null,
+        series: [{ label: "2024" }, { label: "2025", color: "#fff" }],
+      });
+      expect("lineColor" in restored).toBe(false);
+      expect(() =>
+        registry.original.factory("line_chart")!.parse(restored),
+      ).not.toThrow();
+    });
+
+    it("should keep values which are not null", () => {
+      const output = {
+        type: "line_chart",
+        title: "Sales",
+        lineColor: "#000",
+        showGrid: false,
+        note: "hello",
+        series: [],
+      };
+
+      expect(registry.restoreOptionals(output)).toEqual(output);
+    });
+
+    it("should keep nulls of required fields for validation to fail", () => {
+      const restored = registry.restoreOptionals({
+        type: "line_chart",
+        title: null,
+        series: [],
+      });
+
+      expect(restored.title).toBeNull();
+    });
+
+    it("should restore nested union options", () => {
+      registry.register(
+        z.object({
+          type: z.literal("shape"),
+          geometry: z.discriminatedUnion("kind", [
+            z.object({
+              kind: z.literal("circle"),
+              radius: z.number().default(1),
+            }),
+            z.object({
+              kind: z.literal("square"),
+              size: z.number().optional(),
+            }),
+          ]),
+        }),
+      );
+
+      expect(
+        registry.restoreOptionals({
+          type: "shape",
+          geometry: { kind: "circle", radius: null },
+        }),
+      ).toEqual({ type: "shape", geometry: { kind: "circle", radius: 1 } });
+      expect(
+        registry.restoreOptionals({
+          type: "shape",
+          geometry: { kind: "square", size: null },
+        }),
+      ).toEqual({ type: "shape", geometry: { kind: "square" } });
+    });
+
+    it("should throw for unknown types", () => {
+      expect(() => registry.restoreOptionals({ type: "unknown" })).toThrow(
+        "No schema registered for type 'unknown'",
+      );
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import { createRegistry, toTools, type RegistryType } from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string(),
+  points: z.array(z.number()),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  slices: z.array(z.number()),
+});
+
+const tableSchema = z.object({
+  type: z.literal("table"),
+  rows: z.array(z.array(z.string())),
+});
+
+const textSchema = z.object({
+  type: z.literal("text"),
+  content: z.string(),
+});
+
+describe("scope", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(lineChartSchema, undefined, {
+      metadata: { tags: ["chart"] },
+    });
+    registry.register(pieChartSchema, undefined, {
+      metadata: { tags: ["chart"] },
+    });
+    registry.register(tableSchema, undefined, {
+      metadata: { tags: ["data"] },
+    });
+    registry.register(textSchema);
+  });
+
+  it("should select types by name", () => {
+    const scope = registry.scope(["table", "text", "unknown"]);
+
+    expect(scope.original.schemas).toEqual([tableSchema, textSchema]);
+    expect(scope.llm.enum.options).toEqual(["table", "text"]);
+    expect(scope.llm.union.options).toHaveLength(2);
+    expect(scope.original.factory("table")).toBe(tableSchema);
+    expect(scope.original.factory("line_chart")).toBeNull();
+  });
+
+  it("should select types by tag", () => {
+    const scope = registry.scope({ tags: ["chart", "data"] });
+
+    expect(scope.original.enum.options).toEqual([
+      "line_chart",
+      "pie_chart",
+      "table",
+    ]);
+    expect(registry.scope({ tags: ["chart"] }).llm.schemas).toHaveLength(2);
+    expect(registry.scope({ tags: [] }).llm.schemas).toEqual([]);
+  });
+
+  it("should select types by predicate", () => {
+    const scope = registry.scope(
+      (name, schema) => name.endsWith("_chart") && "points" in schema.shape,
+    );
+
+    expect(scope.original.schemas).toEqual([lineChartSchema]);
+    expect(() => scope.llm.union).toThrow(
+      "At least 2 schemas are required to construct a union",
+    );
+  });
+
+  it("should return the schemas of the registry", () => {
+    const scope = registry.scope({ tags: ["chart"] });
+
+    expect(scope.llm.factory("pie_chart")).toBe(
+      registry.llm.factory("pie_chart"),
+    );
+    expect(scope.llm.discriminator).toBe("type");
+  });
+
+  it("should reflect later changes of the registry", () => {
+    const scope = registry.scope({ tags: ["chart"] });
+
+    registry.register(
+      z.object({ type: z.literal("bar_chart"), bars: z.array(z.number()) }),
+      undefined,
+      { metadata: { tags: ["chart"] } },
+    );
+    registry.unregister("line_chart");
+
+    expect(scope.llm.enum.options).toEqual(["pie_chart", "bar_chart"]);
+  });
+
+  it("should narrow versions and exports", () => {
+    registry.register(tableSchema.extend({ caption: z.string() }), undefined, {
+      version: 2,
+      metadata: { tags: ["data"] },
+    });
+    const scope = registry.scope(["table", "text"]);
+
+    expect(scope.original.versions("table")).toEqual([1, 2]);
+    expect(scope.original.currentVersion("line_chart")).toBeNull();
+    expect(scope.llm.toJSONSchema("enum").enum).toEqual(["table", "text"]);
+    expect(() => scope.llm.toJSONSchema({ type: "pie_chart" })).toThrow(
+      "No schema registered for type 'pie_chart'",
+    );
+    expect(toTools(scope.llm, "anthropic").map(({ name }) => name)).toEqual([
+      "table",
+      "text",
+    ]);
+  });
+
+  it("should be read-only", () => {
+    const scope = registry.scope(["table"]);
+
+    expect(Object.isFrozen(scope)).toBe(true);
+    expect(scope.original).not.toHaveProperty("add");
+    expect(scope.original).not.toHaveProperty("remove");
+  });
+});
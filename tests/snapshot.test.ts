@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import { createRegistry, type RegistryType } from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string(),
+  points: z.array(z.number()),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  slices: z.array(z.number()),
+});
+
+const barChartSchema = z.object({
+  type: z.literal("bar_chart"),
+  bars: z.array(z.number()),
+});
+
+describe("snapshot", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(lineChartSchema);
+    registry.register(pieChartSchema);
+  });
+
+  it("should not be affected by later changes", () => {
+    const snapshot = registry.snapshot();
+    const union = snapshot.llm.union;
+
+    registry.register(barChartSchema);
+    registry.register(pieChartSchema.extend({ legend: z.boolean() }));
+    registry.unregister("line_chart");
+
+    expect(snapshot.original.schemas).toEqual([
+      lineChartSchema,
+      pieChartSchema,
+    ]);
+    expect(snapshot.llm.enum.options).toEqual(["line_chart", "pie_chart"]);
+    expect(snapshot.llm.union).toBe(union);
+    expect(snapshot.original.factory("bar_chart")).toBeNull();
+    expect(registry.original.factory("line_chart")).toBeNull();
+  });
+
+  it("should share the memoized union of the registry", () => {
+    const union = registry.llm.union;
+    expect(registry.snapshot().llm.union).toBe(union);
+  });
+
+  it("should be frozen", () => {
+    const snapshot = registry.snapshot();
+
+    expect(Object.isFrozen(snapshot)).toBe(true);
+    expect(Object.isFrozen(snapshot.llm)).toBe(true);
+    expect(() =>
+      (snapshot.original as unknown as { remove(name: string): void }).remove(
+        "line_chart",
+      ),
+    ).toThrow("A snapshot can not be modified");
+    expect(snapshot.original.schemas).toHaveLength(2);
+  });
+
+  it("should return the same snapshot until the registry changes", () => {
+    const snapshot = registry.snapshot();
+    expect(registry.snapshot()).toBe(snapshot);
+
+    registry.register(barChartSchema);
+    expect(registry.snapshot()).not.toBe(snapshot);
+  });
+
+  describe("hash", () => {
+    it("should be equal for equal catalogs", () => {
+      const other = createRegistry();
+      other.register(pieChartSchema);
+      other.register(lineChartSchema);
+
+      expect(registry.snapshot().hash).toMatch(/^[0-9a-f]{28}$/);
+      expect(other.snapshot().hash).toBe(registry.snapshot().hash);
+    });
+
+    it("should change with the catalog", () => {
+      const hash = registry.snapshot().hash;
+
+      registry.register(barChartSchema);
+      const withBarChart = registry.snapshot().hash;
+      expect(withBarChart).not.toBe(hash);
+
+      registry.unregister("bar_chart");
+      expect(registry.snapshot().hash).toBe(hash);
+
+      registry.register(pieChartSchema.extend({ title: z.string().max(10) }));
+      expect(registry.snapshot().hash).not.toBe(hash);
+    });
+
+    it("should be stable for function defaults", () => {
+      const stampedSchema = z.object({
+        type: z.literal("stamped"),
+        id: z.string().default(() => crypto.randomUUID()),
+        createdAt: z.date().default(() => new Date()),
+      });
+      registry.register(stampedSchema);
+      const hash = registry.snapshot().hash;
+
+      registry.unregister("stamped");
+      registry.register(stampedSchema);
+      expect(registry.snapshot().hash).toBe(hash);
+    });
+
+    it("should tell refinements and transforms apart", () => {
+      const positive = z.object({
+        type: z.literal("score"),
+        value: z.number().refine((value) => value > 0),
+      });
+      const negative = z.object({
+        type: z.literal("score"),
+        value: z.number().refine((value) => value < 0),
+      });
+
+      registry.register(positive);
+      const hash = registry.snapshot().hash;
+      registry.register(negative);
+      expect(registry.snapshot().hash).not.toBe(hash);
+      registry.register(positive);
+      expect(registry.snapshot().hash).toBe(hash);
+    });
+
+    it("should cover metadata and versions", () => {
+      const hash = registry.snapshot().hash;
+
+      registry.register(pieChartSchema, undefined, {
+        metadata: { chooseWhen: "parts of a whole" },
+      });
+      const withMetadata = registry.snapshot().hash;
+      expect(withMetadata).not.toBe(hash);
+
+      registry.register(pieChartSchema, undefined, {
+        version: 2,
+        metadata: { chooseWhen: "parts of a whole" },
+      });
+      expect(registry.snapshot().hash).not.toBe(withMetadata);
+    });
+  });
+});
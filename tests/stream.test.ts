@@ -0,0 +1,191 @@
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  createTypedRegistry,
+  type RegistryType,
+} from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  title: z.string(),
+  smooth: z.boolean(),
+  points: z.array(z.object({ x: z.number(), y: z.number() })),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  slices: z.array(z.number()),
+});
+
+const lineChart = {
+  type: "line_chart",
+  title: 'Sales "2024" é',
+  smooth: true,
+  points: [
+    { x: 1, y: -2.5 },
+    { x: 2, y: 1e3 },
+  ],
+};
+
+function chunks(text: string, size: number): string[] {
+  return Array.from({ length: Math.ceil(text.length / size) }, (_, i) =>
+    text.slice(i * size, (i + 1) * size),
+  );
+}
+
+describe("stream parser", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(lineChartSchema);
+    registry.register(pieChartSchema);
+  });
+
+  it("should report the type as soon as its value is complete", () => {
+    const onType = vi.fn();
+    const parser = registry.llm.createStreamParser({ onType });
+
+    expect(parser.write('{"type": "line_').type).toBeNull();
+    expect(parser.current.partial).toEqual({ type: "line_" });
+    expect(onType).not.toHaveBeenCalled();
+
+    expect(parser.write('chart", "ti').type).toBe("line_chart");
+    expect(onType).toHaveBeenCalledWith(
+      "line_chart",
+      registry.llm.factory("line_chart"),
+    );
+    expect(parser.current.partial).toEqual({ type: "line_chart" });
+  });
+
+  it("should expose the partial output after every chunk", () => {
+    const parser = registry.llm.createStreamParser();
+    const text = JSON.stringify(lineChart);
+    const beforePoints = text.indexOf(',"points"') - 1;
+
+    for (const [index, chunk] of chunks(text, 1).entries()) {
+      const update = parser.write(chunk);
+      expect(update.error).toBeNull();
+      expect(update.issues).toEqual([]);
+      if (index === beforePoints) {
+        expect(update.partial).toEqual({
+          type: "line_chart",
+          title: 'Sales "2024" é',
+          smooth: true,
+        });
+      }
+    }
+    expect(parser.current.partial).toEqual(lineChart);
+    expect(parser.end()).toEqual({
+      success: true,
+      type: "line_chart",
+      data: lineChart,
+    });
+  });
+
+  it("should leave out incomplete values", () => {
+    const parser = registry.llm.createStreamParser();
+
+    expect(parser.write('{"type": "line_chart", "smooth": tr').partial).toEqual(
+      { type: "line_chart" },
+    );
+    expect(parser.write('ue, "points": [{"x": 1.').partial).toEqual({
+      type: "line_chart",
+      smooth: true,
+      points: [{}],
+    });
+    expect(parser.write('5, "y": 2}], "title": "a\\').partial).toEqual({
+      type: "line_chart",
+      smooth: true,
+      points: [{ x: 1.5, y: 2 }],
+      title: "a",
+    });
+    expect(parser.write("u00e9").partial?.title).toBe("aé");
+  });
+
+  it("should leave out numbers which may continue in the next chunk", () => {
+    const registry = createRegistry();
+    registry.register(
+      z.object({ type: z.literal("a"), n: z.number().min(100) }),
+    );
+    registry.register(pieChartSchema);
+    const parser = registry.llm.createStreamParser();
+
+    expect(parser.write('{"type": "a", "n": 1')).toMatchObject({
+      partial: { type: "a" },
+      issues: [],
+    });
+    expect(parser.write("50").partial).toEqual({ type: "a" });
+    expect(parser.write("}")).toMatchObject({
+      partial: { type: "a", n: 150 },
+      issues: [],
+    });
+  });
+
+  it("should validate the complete values against the schema", () => {
+    const parser = registry.llm.createStreamParser();
+    parser.write('{"type": "pie_chart", "slices": [1, "two"');
+
+    expect(parser.current.type).toBe("pie_chart");
+    expect(parser.current.issues.map(({ path }) => path)).toEqual([
+      ["slices", 1],
+    ]);
+
+    parser.write("]}");
+    const result = parser.end();
+    expect(
+      !result.success && result.error.issues.map(({ path }) => path),
+    ).toEqual([["title"], ["slices", 1]]);
+  });
+
+  it("should fail for unknown types and invalid JSON", () => {
+    const unknown = registry.llm.createStreamParser();
+    expect(unknown.write('{"type": "bar_chart",').error?.message).toBe(
+      "No schema registered for type 'bar_chart'",
+    );
+    expect(unknown.end()).toMatchObject({
+      success: false,
+      error: { typeName: "bar_chart" },
+    });
+
+    const invalid = registry.llm.createStreamParser();
+    invalid.write('{"type": "pie_chart", "slices": [1 2');
+    expect(invalid.current.error?.message).toBe(
+      "Output is not valid JSON: Unexpected token '2' at position 35",
+    );
+    expect(invalid.write("]}")).toBe(invalid.current);
+
+    const array = registry.llm.createStreamParser();
+    expect(array.write("[").error?.message).toBe("Output is not a JSON object");
+  });
+
+  it("should fail for incomplete output", () => {
+    const parser = registry.llm.createStreamParser();
+    parser.write('{"type": "pie_chart", "title": "Share"');
+
+    const result = parser.end();
+    expect(!result.success && result.error.message).toMatch(
+      /^Output is not valid JSON: /,
+    );
+  });
+
+  it("should type the partial output of a typed registry", () => {
+    const typed = createTypedRegistry()
+      .register(lineChartSchema)
+      .register(pieChartSchema);
+    const parser = typed.llm.createStreamParser();
+
+    const { partial } = parser.write('{"type": "pie_chart"');
+    if (partial?.type === "pie_chart") {
+      expectTypeOf(partial.slices).toEqualTypeOf<number[] | undefined>();
+    }
+    const result = parser.end();
+    if (result.success && result.data.type === "line_chart") {
+      expectTypeOf(result.data.points).toEqualTypeOf<
+        { x: number; y: number }[]
+      >();
+    }
+  });
+});
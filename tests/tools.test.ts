@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  createRegistry,
+  ToolCallError,
+  type RegistryType,
+} from "../src/index.js";
+
+const lineChartSchema = z
+  .object({
+    type: z.literal("line_chart"),
+    title: z.string(),
+    lineColor: z.string().optional(),
+    points: z.array(z.object({ x: z.number(), y: z.number() })),
+  })
+  .describe("A line chart for trends over time");
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  data: z.array(z.object({ label: z.string(), value: z.number() })),
+});
+
+describe("tools", () => {
+  let registry: RegistryType;
+
+  beforeEach(() => {
+    registry = createRegistry();
+    registry.register(lineChartSchema);
+    registry.register(pieChartSchema);
+  });
+
+  describe("tools", () => {
+    it("should export OpenAI function tools", () => {
+      const tools = registry.tools("openai");
+
+      expect(tools.map((tool) => tool.function.name)).toEqual([
+        "line_chart",
+        "pie_chart",
+      ]);
+      expect(tools[0]).toEqual({
+        type: "function",
+        function: {
+          name: "line_chart",
+          description: "A line chart for trends over time",
+          parameters: {
+            description: "A line chart for trends over time",
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              lineColor: { anyOf: [{ type: "string" }, { type: "null" }] },
+              points: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { x: { type: "number" }, y: { type: "number" } },
+                  required: ["x", "y"],
+                  additionalProperties: false,
+                },
+              },
+            },
+            required: ["title", "lineColor", "points"],
+            additionalProperties: false,
+          },
+          strict: true,
+        },
+      });
+      expect(tools[1]?.function).not.toHaveProperty("description");
+    });
+
+    it("should export Anthropic tools", () => {
+      const tools = registry.tools("anthropic");
+
+      expect(tools.map((tool) => tool.name)).toEqual([
+        "line_chart",
+        "pie_chart",
+      ]);
+      expect(tools[0]?.description).toBe("A line chart for trends over time");
+      // anthropic supports optional fields
+      expect(tools[0]?.input_schema.properties).toHaveProperty("lineColor", {
+        type: "string",
+      });
+      expect(tools[0]?.input_schema.required).toEqual([
+        "title",
+        "lineColor",
+        "points",
+      ]);
+    });
+
+    it("should not contain the type field and the dialect", () => {
+      for (const tool of registry.tools("anthropic")) {
+        expect(tool.input_schema.properties).not.toHaveProperty("type");
+        expect(tool.input_schema).not.toHaveProperty("$schema");
+      }
+    });
+
+    it("should skip schemas ignored for the llm repo", () => {
+      registry.register(
+        z.object({ type: z.literal("internal"), note: z.string() }),
+        undefined,
+        { ignoreLLM: true },
+      );
+      expect(registry.tools("openai")).toHaveLength(2);
+    });
+  });
+
+  describe("dispatchToolCall", () => {
+    it("should parse OpenAI arguments", () => {
+      const result = registry.dispatchToolCall({
+        name: "line_chart",
+        arguments: JSON.stringify({
+          title: "Sales",
+          lineColor: null,
+          points: [{ x: 1, y: 2 }],
+        }),
+      });
+
+      expect(result).toEqual({
+        success: true,
+        type: "line_chart",
+        data: {
+          type: "line_chart",
+          title: "Sales",
+          lineColor: null,
+          points: [{ x: 1, y: 2 }],
+        },
+      });
+    });
+
+    it("should parse Anthropic input", () => {
+      const result = registry.dispatchToolCall({
+        name: "pie_chart",
+        input: { title: "Share", data: [{ label: "A", value: 1 }] },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.type).toBe("pie_chart");
+    });
+
+    it("should hydrate the parsed data", () => {
+      const result = registry.dispatchToolCall({
+        name: "line_chart",
+        arguments: { title: "Sales", lineColor: null, points: [] },
+      });
+      if (!result.success) throw result.error;
+
+      expect(registry.hydrate(result.data)).toEqual({
+        success: true,
+        data: { type: "line_chart", title: "Sales", points: [] },
+      });
+    });
+
+    it("should fail for unknown tools", () => {
+      const result = registry.dispatchToolCall({
+        name: "bar_chart",
+        arguments: "{}",
+      });
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toBeInstanceOf(ToolCallError);
+      expect(!result.success && result.error.message).toBe(
+        "Unknown tool 'bar_chart'",
+      );
+    });
+
+    it("should fail for malformed JSON", () => {
+      const result = registry.dispatchToolCall({
+        name: "pie_chart",
+        arguments: '{"title": "Share",',
+      });
+
+      expect(!result.success && result.error.message).toBe(
+        "Arguments of tool 'pie_chart' are not valid JSON",
+      );
+    });
+
+    it("should report invalid arguments", () => {
+      const result = registry.dispatchToolCall({
+        name: "pie_chart",
+        input: { title: 1, data: [] },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.toolName).toBe("pie_chart");
+        expect(result.error.issues.map((issue) => issue.path)).toEqual([
+          ["title"],
+        ]);
+      }
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { z } from "zod";
+import {
+  createTypedRegistry,
+  type HydrateResult,
+  type SchemaFilter,
+} from "../src/index.js";
+
+const lineChartSchema = z.object({
+  type: z.literal("line_chart"),
+  id: z.string(),
+  title: z.string(),
+  color: z.string().optional(),
+  points: z.array(
+    z.object({ x: z.number(), y: z.number(), label: z.string().optional() }),
+  ),
+});
+
+const pieChartSchema = z.object({
+  type: z.literal("pie_chart"),
+  title: z.string(),
+  showLegend: z.boolean().default(true),
+  slices: z.array(z.number()),
+});
+
+const auditSchema = z.object({
+  type: z.literal("audit"),
+  user: z.string(),
+});
+
+function createCharts() {
+  return createTypedRegistry()
+    .register(lineChartSchema, ["id"])
+    .register(pieChartSchema)
+    .register(auditSchema, [], { ignoreLLM: true });
+}
+
+describe("typed registry", () => {
+  it("should infer the original schemas", () => {
+    const registry = createCharts();
+
+    expectTypeOf(registry.original.factory("line_chart")).toEqualTypeOf<
+      typeof lineChartSchema | null
+    >();
+    expectTypeOf<z.infer<typeof registry.original.enum>>().toEqualTypeOf<
+      "line_chart" | "pie_chart" | "audit"
+    >();
+    expectTypeOf<z.infer<typeof registry.original.union>>().toEqualTypeOf<
+      | z.infer<typeof lineChartSchema>
+      | z.infer<typeof pieChartSchema>
+      | z.infer<typeof auditSchema>
+    >();
+    expect(registry.original.factory("line_chart")).toBe(lineChartSchema);
+  });
+
+  it("should infer the llm schemas", () => {
+    const registry = createCharts();
+    const lineChart = registry.llm.factory("line_chart")!;
+
+    expectTypeOf<z.infer<typeof lineChart>>().toEqualTypeOf<{
+      type: "line_chart";
+      title: string;
+      color: string;
+      points: { x: number; y: number; label: string }[];
+    }>();
+    expectTypeOf<z.infer<typeof registry.llm.union>>().toEqualTypeOf<
+      | z.infer<typeof lineChart>
+      | {
+          type: "pie_chart";
+          title: string;
+          showLegend: boolean;
+          slices: number[];
+        }
+    >();
+    expectTypeOf<z.infer<typeof registry.llm.enum>>().toEqualTypeOf<
+      "line_chart" | "pie_chart"
+    >();
+
+    expect(Object.keys(lineChart.shape).sort()).toEqual([
+      "color",
+      "points",
+      "title",
+      "type",
+    ]);
+    expect(registry.llm.enum.options).toEqual(["line_chart", "pie_chart"]);
+  });
+
+  it("should remove blacklisted keys and keep filters at runtime", () => {
+    const label: SchemaFilter = (key) => key === "label";
+    const registry = createTypedRegistry().register(lineChartSchema, [
+      "id",
+      label,
+    ]);
+    const lineChart = registry.llm.factory("line_chart")!;
+
+    expectTypeOf(lineChart.shape).not.toHaveProperty("id");
+    expect(lineChart.shape).not.toHaveProperty("id");
+    expect(
+      lineChart.parse({
+        type: "line_chart",
+        title: "Sales",
+        color: "red",
+        points: [{ x: 1, y: 2, label: "a" }],
+      }).points[0],
+    ).toEqual({ x: 1, y: 2 });
+  });
+
+  it("should only remove top-level keys", () => {
+    const schema = z.object({
+      type: z.literal("card"),
+      id: z.string(),
+      owner: z.object({ id: z.string() }),
+    });
+    const registry = createTypedRegistry().register(schema, ["id"]);
+
+    expect(registry.llm.factory("card")!.shape.owner.shape).toHaveProperty(
+      "id",
+    );
+  });
+
+  it("should make optionals nullable for the profile", () => {
+    const registry = createTypedRegistry({ profile: "openai" }).register(
+      pieChartSchema,
+    );
+    const pieChart = registry.llm.factory("pie_chart")!;
+    const anthropic = registry.llmFor("anthropic").factory("pie_chart")!;
+
+    expectTypeOf<z.infer<typeof pieChart>["showLegend"]>().toEqualTypeOf<
+      boolean | null
+    >();
+    expectTypeOf<
+      z.infer<typeof anthropic>["showLegend"]
+    >().toEqualTypeOf<boolean>();
+    expect(pieChart.shape.showLegend.isNullable()).toBe(true);
+    expect(anthropic.shape.showLegend.isNullable()).toBe(false);
+  });
+
+  it("should rename the discriminator", () => {
+    const schema = z.object({ kind: z.literal("note"), text: z.string() });
+    const registry = createTypedRegistry({
+      discriminator: { original: "kind", llm: "noteType" },
+    }).register(schema);
+
+    expectTypeOf(registry.llm.discriminator).toEqualTypeOf<"noteType">();
+    expectTypeOf<z.infer<typeof registry.llm.union>>().toEqualTypeOf<{
+      text: string;
+      noteType: "note";
+    }>();
+    expect(
+      registry.llm.factory("note")!.parse({ noteType: "note", text: "a" }),
+    ).toEqual({ noteType: "note", text: "a" });
+  });
+
+  it("should replace the type of a registered type", () => {
+    const registry = createCharts().register(
+      pieChartSchema.extend({ unit: z.string() }),
+    );
+
+    expectTypeOf<
+      z.infer<
+        NonNullable<ReturnType<typeof registry.original.factory<"pie_chart">>>
+      >
+    >().toHaveProperty("unit");
+    expect(registry.original.factory("pie_chart")!.shape).toHaveProperty(
+      "unit",
+    );
+  });
+
+  it("should type restored, hydrated and dispatched outputs", () => {
+    const registry = createTypedRegistry({ profile: "openai" })
+      .register(lineChartSchema, ["id"])
+      .register(pieChartSchema);
+    const output = { type: "pie_chart", title: "Shares", showLegend: null };
+
+    expectTypeOf(registry.restoreOptionals(output)).toEqualTypeOf<
+      | {
+          type: "line_chart";
+          title: string;
+          color?: string | undefined;
+          points: { x: number; y: number; label?: string | undefined }[];
+        }
+      | z.input<typeof pieChartSchema>
+    >();
+    expect(registry.restoreOptionals({ ...output, slices: [] })).toEqual({
+      type: "pie_chart",
+      title: "Shares",
+      showLegend: true,
+      slices: [],
+    });
+
+    const hydrated = registry.hydrate({ ...output, slices: [1] });
+    expectTypeOf(hydrated).toEqualTypeOf<
+      HydrateResult<
+        z.infer<typeof lineChartSchema> | z.infer<typeof pieChartSchema>
+      >
+    >();
+    expect(hydrated.success && hydrated.data.type).toBe("pie_chart");
+
+    const openai = registry.dispatchToolCall({
+      name: "pie_chart",
+      arguments: '{"title": "Shares", "showLegend": null, "slices": []}',
+    });
+    const anthropic = registry.dispatchToolCall({
+      name: "pie_chart",
+      input: { title: "Shares", showLegend: true, slices: [] },
+    });
+    expectTypeOf<
+      Extract<
+        Extract<typeof openai, { success: true }>["data"],
+        { type: "pie_chart" }
+      >["showLegend"]
+    >().toEqualTypeOf<boolean | null>();
+    expectTypeOf<
+      Extract<
+        Extract<typeof anthropic, { success: true }>["data"],
+        { type: "pie_chart" }
+      >["showLegend"]
+    >().toEqualTypeOf<boolean>();
+    expect(openai.success && anthropic.success).toBe(true);
+  });
+
+  it("should behave like the registry", () => {
+    const registry = createCharts();
+
+    expect(registry.original.factory("bar_chart")).toBeNull();
+    expect(registry.tools("openai").map(({ function: f }) => f.name)).toEqual([
+      "line_chart",
+      "pie_chart",
+    ]);
+    expect(
+      registry.hydrate(
+        {
+          type: "line_chart",
+          title: "Sales",
+          color: "red",
+          points: [],
+        },
+        undefined,
+      ).success,
+    ).toBe(false);
+    expect(registry.unregister("audit")).toBe(auditSchema);
+    expect(registry.original.factory("audit")).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { bench, describe } from "vitest";
+import { z } from "zod";
+import { createRegistry } from "../src/index.js";
+
+const registry = createRegistry();
+for (let i = 0; i < 150; i++) {
+  registry.register(
+    z.object({
+      type: z.literal(`type_${i}`),
+      title: z.string(),
+      value: z.number().optional(),
+      tags: z.array(z.string()),
+    }),
+  );
+}
+
+const scope = registry.scope(["type_1", "type_2", "type_3"]);
+const output = { type: "type_149", title: "Title", value: 1, tags: [] };
+
+describe("150 types", () => {
+  bench("read llm.union", () => {
+    registry.llm.union;
+  });
+
+  bench("read llm.enum", () => {
+    registry.llm.enum;
+  });
+
+  bench("parse with llm.union", () => {
+    registry.llm.union.parse(output);
+  });
+
+  bench("read the union of a scope", () => {
+    scope.llm.union;
+  });
+});
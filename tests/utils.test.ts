@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { z } from "zod";
-import { createRegistry, type SchemaFilter } from "../src/index.js";
+import { createRegistry, formatPath, type SchemaFilter } from "../src/index.js";
 
 // Since utility functions are not exported, we test them through Registry functionality
 describe("Utility Functions (tested through Registry behavior)", () => {
@@ -79,6 +79,107 @@ describe("Utility Functions (tested through Registry behavior)", () => {
       const llmSchema = registry.llm.factory("user");
       expect(llmSchema).toBeDefined();
     });
+    it("should filter fields of nested objects by path", () => {
+      const registry = createRegistry({
+        globalBlacklist: [
+          (_, __, { path }) => formatPath(path) === "user.address.internalId",
+        ],
+      });
+
+      const orderSchema = z.object({
+        type: z.literal("order"),
+        user: z.object({
+          name: z.string(),
+          address: z.object({
+            street: z.string(),
+            internalId: z.string(),
+          }),
+        }),
+        items: z.array(z.object({ name: z.string(), cost: z.number() })),
+      });
+
+      registry.register(orderSchema, [
+        (key, _, { path }) => key === "cost" && path[0] === "items",
+      ]);
+
+      const llmSchema = registry.llm.factory("order")!;
+      const address = llmSchema.shape.user.shape.address;
+      expect(Object.keys(address.shape)).toEqual(["street"]);
+      expect(Object.keys(llmSchema.shape.items.element.shape)).toEqual([
+        "name",
+      ]);
+
+      // the original schema is untouched
+      const original = registry.original.factory("order")!;
+      expect(Object.keys(original.shape.items.element.shape)).toEqual([
+        "name",
+        "cost",
+      ]);
+    });
+
+    it("should pass path, type name and field schema to filters", () => {
+      const calls: [string, string, z.ZodTypeAny][] = [];
+      const registry = createRegistry({
+        globalBlacklist: [
+          (_, schema, { path, typeName }) => {
+            calls.push([formatPath(path), typeName, schema]);
+            return false;
+          },
+        ],
+      });
+
+      const cost = z.number();
+      registry.register(
+        z.object({
+          type: z.literal("invoice"),
+          lines: z.array(z.object({ cost })).optional(),
+          pair: z.tuple([z.object({ left: z.string() }), z.string()]),
+          lookup: z.record(z.object({ value: z.string() })),
+          either: z.union([
+            z.object({ a: z.string() }),
+            z.object({ b: z.string() }),
+          ]),
+        }),
+      );
+
+      expect(calls.map(([path]) => path)).toEqual([
+        "lines",
+        "pair",
+        "lookup",
+        "either",
+        "lines[].cost",
+        "pair[0].left",
+        "lookup{}.value",
+        "either.a",
+        "either.b",
+      ]);
+      expect(calls.every(([, typeName]) => typeName === "invoice")).toBe(true);
+      expect(calls.find(([path]) => path === "lines[].cost")?.[2]).toBe(cost);
+    });
+
+    it("should filter fields inside of union options", () => {
+      const registry = createRegistry({
+        globalBlacklist: [(key) => key === "secret"],
+      });
+
+      registry.register(
+        z.object({
+          type: z.literal("payment"),
+          method: z.discriminatedUnion("kind", [
+            z.object({ kind: z.literal("card"), secret: z.string() }),
+            z.object({ kind: z.literal("cash"), secret: z.string() }),
+          ]),
+        }),
+      );
+
+      const method = registry.llm.factory("payment")!.shape.method;
+      expect(method.parse({ kind: "card", secret: "1234" })).toEqual({
+        kind: "card",
+      });
+      for (const option of method.options) {
+        expect(Object.keys(option.shape)).toEqual(["kind"]);
+      }
+    });
   });
 
   describe("removeDefaultsAndOptionals function", () => {
@@ -203,6 +304,108 @@ describe("Utility Functions (tested through Registry behavior)", () => {
 
       expect(result.score).toBe(0);
     });
+
+    it("should remove optionals inside nested objects and arrays", () => {
+      const registry = createRegistry();
+
+      const pieChartSchema = z.object({
+        type: z.literal("pie_chart"),
+        title: z.string(),
+        data: z.array(
+          z.object({
+            label: z.string(),
+            value: z.number(),
+            color: z.string().optional(),
+          }),
+        ),
+        settings: z
+          .object({
+            legend: z.object({ position: z.string().default("top") }),
+          })
+          .optional(),
+      });
+
+      registry.register(pieChartSchema);
+
+      const llmSchema = registry.llm.factory("pie_chart");
+
+      const valid = {
+        type: "pie_chart",
+        title: "Share",
+        data: [{ label: "A", value: 1, color: "#fff" }],
+        settings: { legend: { position: "left" } },
+      };
+      expect(() => llmSchema!.parse(valid)).not.toThrow();
+
+      expect(() =>
+        llmSchema!.parse({ ...valid, data: [{ label: "A", value: 1 }] }),
+      ).toThrow();
+      expect(() =>
+        llmSchema!.parse({ ...valid, settings: { legend: {} } }),
+      ).toThrow();
+    });
+
+    it("should remove optionals inside unions, records, tuples and effects", () => {
+      const registry = createRegistry();
+
+      const schema = z.object({
+        type: z.literal("mixed"),
+        either: z.union([
+          z.object({ a: z.string().optional() }),
+          z.object({ b: z.number().optional() }),
+        ]),
+        record: z.record(z.object({ c: z.boolean().optional() })),
+        tuple: z.tuple([z.object({ d: z.string().optional() })]),
+        refined: z
+          .object({ e: z.number().optional() })
+          .refine((value) => value.e !== 0, "e must not be zero"),
+      });
+
+      registry.register(schema);
+
+      const llmSchema = registry.llm.factory("mixed")!;
+      const valid = {
+        type: "mixed",
+        either: { a: "x" },
+        record: { key: { c: true } },
+        tuple: [{ d: "y" }],
+        refined: { e: 1 },
+      };
+
+      expect(() => llmSchema.parse(valid)).not.toThrow();
+      expect(() => llmSchema.parse({ ...valid, either: {} })).toThrow();
+      expect(() =>
+        llmSchema.parse({ ...valid, record: { key: {} } }),
+      ).toThrow();
+      expect(() => llmSchema.parse({ ...valid, tuple: [{}] })).toThrow();
+      expect(() => llmSchema.parse({ ...valid, refined: {} })).toThrow();
+      // the refinement survives the transformation
+      expect(() => llmSchema.parse({ ...valid, refined: { e: 0 } })).toThrow(
+        "e must not be zero",
+      );
+    });
+
+    it("should preserve descriptions and checks of nested types", () => {
+      const registry = createRegistry();
+
+      const schema = z.object({
+        type: z.literal("described"),
+        tags: z
+          .array(z.string().min(2).optional().describe("a tag"))
+          .max(2)
+          .describe("list of tags"),
+      });
+
+      registry.register(schema);
+
+      const tags = registry.llm.factory("described")!.shape.tags;
+      expect(tags.description).toBe("list of tags");
+      expect(tags.element.description).toBe("a tag");
+      expect(() => tags.parse(["ab", "cd"])).not.toThrow();
+      expect(() => tags.parse(["a"])).toThrow();
+      expect(() => tags.parse(["ab", "cd", "ef"])).toThrow();
+      expect(() => tags.parse([undefined])).toThrow();
+    });
   });
 
   describe("Schema filter types", () => {